@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { computeCGPAResponse, parseCGPARequest } from "@/lib/cgpa-api";
+
+// Other tools (bots, spreadsheet scripts) call this from any origin
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+// POST a course list and scheme id; returns GPA, units, quality points,
+// classification and conversions, or a 400 listing each invalid field
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Request body is not valid JSON",
+        issues: [{ field: "Request", message: "Send a JSON object" }],
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  const parsed = parseCGPARequest(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error:
+          parsed.issues.length === 1
+            ? `${parsed.issues[0].field}: ${parsed.issues[0].message}`
+            : `${parsed.issues.length} problems found in the request`,
+        issues: parsed.issues,
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  return NextResponse.json(computeCGPAResponse(parsed.request), {
+    headers: CORS_HEADERS,
+  });
+}
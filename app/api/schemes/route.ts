@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_SCHEME_ID, gradingSchemes } from "@/lib/grading-schemes";
+
+// Grading schemes the CGPA route accepts, with their grades and classes
+export function GET() {
+  return NextResponse.json(
+    {
+      defaultSchemeId: DEFAULT_SCHEME_ID,
+      schemes: Object.keys(gradingSchemes).map((id) => gradingSchemes[id]),
+    },
+    { headers: { "Access-Control-Allow-Origin": "*" } }
+  );
+}
@@ -1,7 +1,8 @@
-import type { Metadata } from "next"
+import type { Metadata, Viewport } from "next"
 import { Inter } from 'next/font/google'
 import "./globals.css"
 import { Toaster } from "@/components/ui/toaster"
+import { ServiceWorkerRegistration } from "@/components/service-worker-registration"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -14,10 +15,21 @@ export const metadata: Metadata = {
     title: "UNILAG CGPA Calculator",
     description: "Calculate your University of Lagos CGPA with ease",
     type: "website",
+  },
+  appleWebApp: {
+    capable: true,
+    title: "CGPA Calc",
+  },
+  icons: {
+    apple: "/icons/apple-touch-icon.png",
   },
     generator: 'v0.dev'
 }
 
+export const viewport: Viewport = {
+  themeColor: "#4f46e5",
+}
+
 export default function RootLayout({
   children,
 }: {
@@ -28,6 +40,7 @@ export default function RootLayout({
       <body className={inter.className}>
         {children}
         <Toaster />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   )
@@ -0,0 +1,37 @@
+import type { MetadataRoute } from "next";
+
+// Served as /manifest.webmanifest. The icons are padded copies of
+// public/placeholder-logo.png until real artwork exists.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "UNILAG CGPA Calculator",
+    short_name: "CGPA Calc",
+    description:
+      "Calculate your University of Lagos CGPA, even without a connection.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#eef2ff",
+    theme_color: "#4f46e5",
+    icons: [
+      {
+        src: "/icons/icon-192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "/icons/icon-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "/icons/icon-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -20,65 +20,301 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Download, Upload, Plus } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  Trash2,
+  Download,
+  Upload,
+  Plus,
+  ListChecks,
+  AlertTriangle,
+  Archive,
+  FileSpreadsheet,
+  ClipboardPaste,
+  Link2,
+  Undo2,
+  Redo2,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import jsPDF from "jspdf";
+import { useHistory } from "@/hooks/use-history";
+import {
+  type ProfileOpenSource,
+  type ProfileSummary,
+  useProfiles,
+} from "@/hooks/use-profiles";
+import { AssessmentBreakdown } from "@/components/assessment-breakdown";
+import { CsvImportDialog } from "@/components/csv-import-dialog";
+import {
+  type PendingImport,
+  ImportModeDialog,
+} from "@/components/import-mode-dialog";
+import { PasteResultsDialog } from "@/components/paste-results-dialog";
+import { PassphraseDialog } from "@/components/passphrase-dialog";
+import { ProfileSwitcher } from "@/components/profile-switcher";
+import { SavedDataIssues } from "@/components/saved-data-issues";
+import { SharedRecordView } from "@/components/shared-record-view";
+import { StudentDetailsForm } from "@/components/student-details-form";
+import { SyncConflictDialog } from "@/components/sync-conflict-dialog";
+import { RecordCompare } from "@/components/record-compare";
+import { TargetPlanner } from "@/components/target-planner";
+import { WhatIfSandbox } from "@/components/what-if-sandbox";
+import {
+  type AssessmentPart,
+  createDefaultAssessmentParts,
+  getAssessmentTotal,
+} from "@/lib/assessments";
+import { getDegreeClassification } from "@/lib/classification";
+import {
+  createTranscriptPDF,
+  getTranscriptFileName,
+} from "@/lib/transcript-pdf";
+import {
+  type CGPAResult,
+  computeCGPA,
+  groupCoursesBySemester,
+} from "@/lib/cgpa-engine";
+import {
+  DEFAULT_SCHEME_ID,
+  getGradeForScore,
+  getGradePoint,
+  getGradingScheme,
+  gradingSchemes,
+} from "@/lib/grading-schemes";
+import {
+  DEFAULT_RETAKE_POLICY,
+  type RetakePolicy,
+  type RetakePolicyMode,
+  getOutstandingCarryOvers,
+  getSupersededCourseIds,
+  isEarlierAttempt,
+  retakePolicyLabels,
+} from "@/lib/retakes";
+import {
+  type RoundingMethod,
+  type RoundingPolicy,
+  formatGPA,
+  roundingMethodLabels,
+} from "@/lib/rounding";
+import { exportCoursesToCSV } from "@/lib/course-csv";
+import {
+  type ImportMode,
+  getDuplicateCourseCodes,
+  normalizeCourseCode,
+} from "@/lib/course-merge";
+import { downloadFile, getFileDateStamp } from "@/lib/download";
+import {
+  type EncryptedFile,
+  decryptText,
+  encryptText,
+  isEncryptedFile,
+} from "@/lib/encryption";
+import {
+  SavedDataError,
+  createEmptySavedData,
+  parseSavedData,
+} from "@/lib/saved-data";
+import { SAVED_DATA_VERSION } from "@/lib/saved-data-migrations";
+import { getCurrentSession, semesterLabels } from "@/lib/sessions";
+import { createShareLink, isShareLink, readShareLink } from "@/lib/share-link";
+import {
+  type StoredState,
+  createProfilesBackup,
+  isProfilesBackup,
+} from "@/lib/storage";
+import type {
+  Course,
+  SavedData,
+  SavedDataMetadata,
+  Semester,
+  StudentDetails,
+} from "@/lib/types";
+import {
+  type WhatIfScenario,
+  applyScenario,
+  createEmptyScenario,
+} from "@/lib/what-if";
 
-interface Course {
-  id: string;
-  code: string;
-  grade: string;
-  creditHours: number;
-}
+// Edits to text fields inside a [data-edit-history] element are recorded in the
+// undo history; any other field keeps the browser's own Ctrl+Z
+const isUntrackedTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.matches("input, textarea")) &&
+  target.closest("[data-edit-history]") === null;
 
-interface SavedData {
-  courses: Course[];
-  scale: "4.0" | "5.0";
-  lastUpdated: string;
-}
+const isDialogOpen = () =>
+  document.querySelector('[role="dialog"], [role="alertdialog"]') !== null;
 
 export default function CGPACalculator() {
   const [courses, setCourses] = useState<Course[]>([]);
-  const [scale, setScale] = useState<"4.0" | "5.0">("5.0");
+  const [schemeId, setSchemeId] = useState<string>(DEFAULT_SCHEME_ID);
+  const [roundingPolicy, setRoundingPolicy] = useState<RoundingPolicy>(
+    getGradingScheme(DEFAULT_SCHEME_ID).rounding
+  );
+  const [retakePolicy, setRetakePolicy] = useState<RetakePolicy>(
+    DEFAULT_RETAKE_POLICY
+  );
+  const [gradeInputMode, setGradeInputMode] = useState<"grade" | "score">(
+    "grade"
+  );
+  const [metadata, setMetadata] = useState<SavedDataMetadata>(
+    () => createEmptySavedData().metadata
+  );
+  const [student, setStudent] = useState<StudentDetails>(
+    () => createEmptySavedData().student
+  );
   const [cgpa, setCgpa] = useState<number>(0);
+  // Autosave stays off until stored data has been restored or reset
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [lastSaved, setLastSaved] = useState<string | null>(null);
+  const [corruptedStorage, setCorruptedStorage] = useState<Extract<
+    StoredState,
+    { status: "corrupted" }
+  > | null>(null);
+  // Why the last file could not be loaded, field by field
+  const [loadError, setLoadError] = useState<SavedDataError | null>(null);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  // JSON downloads are encrypted with a passphrase when this is on
+  const [encryptDownloads, setEncryptDownloads] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<
+    | { mode: "encrypt"; fileName: string; content: string; summary: string }
+    | { mode: "decrypt"; fileName: string; file: EncryptedFile }
+    | null
+  >(null);
+  // Record opened from a share link, shown read-only until imported
+  const [sharedRecord, setSharedRecord] = useState<SavedData | null>(null);
+  // Imported courses waiting for the user to pick replace, append or merge
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [scenario, setScenario] = useState<WhatIfScenario>(
+    createEmptyScenario()
+  );
+  const [cgpaResult, setCgpaResult] = useState<CGPAResult>(() =>
+    computeCGPA([], getGradingScheme(DEFAULT_SCHEME_ID))
+  );
+  // Session a course had when its Session field was focused. The course stays
+  // in that group until the field is left, so typing doesn't remount the row.
+  const [sessionEdit, setSessionEdit] = useState<{
+    courseId: string;
+    session: string;
+  } | null>(null);
   const { toast } = useToast();
 
-  // Grade point mappings - UNILAG system
-  const gradePoints = {
-    "5.0": {
-      A: 5.0,
-      B: 4.0,
-      C: 3.0,
-      D: 2.0,
-      E: 1.0,
-      F: 0.0,
-    },
-    "4.0": {
-      A: 4.0, // A remains A
-      B: 3.0, // B becomes B on 4.0 scale
-      C: 2.0, // C becomes C on 4.0 scale
-      D: 1.0, // D becomes D on 4.0 scale
-      E: 0.0, // E becomes F on 4.0 scale
-      F: 0.0, // F remains F
-    },
-  };
-
-  const gradeOptions = ["A", "B", "C", "D", "E", "F"];
-
-  // Add new course
-  const addCourse = () => {
+  // Undo/redo snapshots of everything that is autosaved
+  const history = useHistory<SavedData>({
+    getPresent: () => getSavedData(),
+    onRestore: (snapshot) => applySavedData(snapshot),
+  });
+
+  // Load a profile's stored data into the calculator
+  const handleProfileOpen = (
+    state: StoredState,
+    profile: ProfileSummary,
+    source: ProfileOpenSource
+  ) => {
+    history.clear();
+    if (source === "other-tab") {
+      // The scenario only refers to course ids, so it can outlive the reload
+      toast({
+        title: "Updated From Another Tab",
+        description: `“${profile.name}” was changed in another tab.`,
+      });
+    } else {
+      setScenario(createEmptyScenario());
+    }
+    if (state.status === "corrupted") {
+      setIsHydrated(false);
+      setCorruptedStorage(state);
+      return;
+    }
+    setCorruptedStorage(null);
+    applySavedData(state.status === "ok" ? state.data : createEmptySavedData());
+    setLastSaved(state.status === "ok" ? state.data.lastUpdated : null);
+    setIsHydrated(true);
+  };
+
+  const profileStore = useProfiles({ onOpen: handleProfileOpen });
+  const { activeProfile } = profileStore;
+
+  const scheme = getGradingScheme(schemeId);
+  const gradeOptions = scheme.grades.map((g) => g.grade);
+
+  // Rows are grouped from the courses being edited; cgpaResult only catches
+  // up after the next effect, so it is used for the GPA badges alone
+  const courseGroups = useMemo(
+    () =>
+      groupCoursesBySemester(courses, (course) =>
+        course.id === sessionEdit?.courseId
+          ? sessionEdit.session
+          : course.session
+      ),
+    [courses, sessionEdit]
+  );
+
+  // Radix Select items cannot use an empty value
+  const NOT_A_RETAKE = "__none";
+
+  // Add new course, defaulting to the given semester or the last one in use
+  const addCourse = (session?: string, semester?: Semester) => {
+    const lastCourse = courses[courses.length - 1];
     const newCourse: Course = {
       id: Date.now().toString(),
       code: "",
       grade: "",
       creditHours: 3,
+      session: session ?? lastCourse?.session ?? getCurrentSession(),
+      semester: semester ?? lastCourse?.semester ?? "first",
     };
+    history.record();
     setCourses([...courses, newCourse]);
   };
 
-  // Remove course
+  // Update one student detail; typing in a field is a single undo step
+  const updateStudent = (field: keyof StudentDetails, value: string) => {
+    history.record(`student:${field}`);
+    setStudent({ ...student, [field]: value });
+  };
+
+  // Remove course, offering to bring it back
   const removeCourse = (id: string) => {
+    const index = courses.findIndex((course) => course.id === id);
+    if (index === -1) return;
+    const removed = courses[index];
+    history.record();
     setCourses(courses.filter((course) => course.id !== id));
+    toast({
+      title: "Course Removed",
+      description: removed.code
+        ? `${removed.code} was removed from your list.`
+        : "The course was removed from your list.",
+      action: (
+        <ToastAction
+          altText="Undo removing the course"
+          onClick={() => restoreCourse(removed, index)}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Put a removed course back where it was, keeping any edits made since;
+  // history.undo would revert whichever change came last instead
+  const restoreCourse = (course: Course, index: number) => {
+    history.record();
+    setCourses((current) =>
+      current.some((other) => other.id === course.id)
+        ? current
+        : [...current.slice(0, index), course, ...current.slice(index)]
+    );
   };
 
   // Update course
@@ -87,83 +323,340 @@ export default function CGPACalculator() {
     field: keyof Course,
     value: string | number
   ) => {
+    history.record(`${id}:${field}`);
+    setCourses(
+      courses.map((course) => {
+        if (course.id !== id) return course;
+        // A grade picked by hand replaces any score it was derived from
+        return field === "grade"
+          ? {
+              ...course,
+              grade: value as string,
+              score: undefined,
+              assessments: undefined,
+            }
+          : { ...course, [field]: value };
+      })
+    );
+  };
+
+  // Update course score and derive its grade from the scheme's score bands
+  const updateCourseScore = (id: string, value: string) => {
+    const maxScore = scheme.scoreBands[0]?.max ?? 100;
+    const parsed = parseFloat(value);
+    const score = Number.isNaN(parsed)
+      ? undefined
+      : Math.max(0, Math.min(maxScore, parsed));
+
+    history.record(`${id}:score`);
     setCourses(
       courses.map((course) =>
-        course.id === id ? { ...course, [field]: value } : course
+        course.id === id
+          ? {
+              ...course,
+              score,
+              grade: score === undefined ? "" : getGradeForScore(scheme, score),
+            }
+          : course
       )
     );
   };
 
-  // Check for duplicate course codes
-  const getDuplicateCourses = () => {
-    const courseCodes = courses
-      .map((course) => course.code.trim().toLowerCase())
-      .filter((code) => code !== "");
-    const duplicates = courseCodes.filter(
-      (code, index) => courseCodes.indexOf(code) !== index
+  // Update assessment parts; the grade is only set once every part is recorded
+  const updateCourseAssessments = (id: string, parts: AssessmentPart[]) => {
+    const total = getAssessmentTotal(parts);
+    history.record(`${id}:assessments`);
+    setCourses(
+      courses.map((course) =>
+        course.id === id
+          ? {
+              ...course,
+              assessments: parts,
+              score: total.recordedWeight > 0 ? total.score : undefined,
+              grade: total.complete
+                ? getGradeForScore(scheme, total.score)
+                : "",
+            }
+          : course
+      )
     );
-    return Array.from(new Set(duplicates));
   };
 
-  // Calculate CGPA
-  const calculateCGPA = () => {
-    if (courses.length === 0) {
-      setCgpa(0);
-      return;
+  // Start or drop the CA + exam breakdown for a course
+  const toggleCourseAssessments = (id: string) => {
+    const course = courses.find((c) => c.id === id);
+    if (!course) return;
+
+    if (course.assessments) {
+      history.record();
+      setCourses(
+        courses.map((c) => (c.id === id ? { ...c, assessments: undefined } : c))
+      );
+    } else {
+      updateCourseAssessments(id, createDefaultAssessmentParts());
     }
+  };
+
+  // Switch grading scheme, re-deriving grades for courses entered as scores
+  const changeScheme = (id: string) => {
+    const nextScheme = getGradingScheme(id);
+    history.record();
+    setSchemeId(nextScheme.id);
+    setRoundingPolicy(nextScheme.rounding);
+    setCourses(
+      courses.map((course) =>
+        course.score === undefined ||
+        (course.assessments && !getAssessmentTotal(course.assessments).complete)
+          ? course
+          : { ...course, grade: getGradeForScore(nextScheme, course.score) }
+      )
+    );
+  };
+
+  // Mark a course as a retake of an earlier attempt, or clear the link
+  const markRetake = (id: string, retakeOf?: string) => {
+    history.record();
+    setCourses(
+      courses.map((course) =>
+        course.id === id ? { ...course, retakeOf } : course
+      )
+    );
+  };
+
+  const changeRoundingPolicy = (policy: RoundingPolicy) => {
+    history.record();
+    setRoundingPolicy(policy);
+  };
+
+  const changeRetakePolicy = (policy: RetakePolicy) => {
+    history.record();
+    setRetakePolicy(policy);
+  };
 
-    const validCourses = courses.filter(
-      (course) =>
+  // Attempts of the same course code from an earlier semester, for the
+  // "Retake of" picker
+  const getEarlierAttempts = (course: Course) =>
+    courses.filter(
+      (other) =>
+        isEarlierAttempt(other, course) &&
         course.code.trim() !== "" &&
-        course.grade !== "" &&
-        course.creditHours > 0
+        normalizeCourseCode(other.code) === normalizeCourseCode(course.code)
     );
 
-    if (validCourses.length === 0) {
-      setCgpa(0);
-      return;
-    }
+  // Check for duplicate course codes, ignoring attempts marked as retakes
+  const getDuplicateCourses = () => getDuplicateCourseCodes(courses);
+
+  // Calculate semester GPAs, running CGPA and overall CGPA
+  const calculateCGPA = () => {
+    const result = computeCGPA(courses, scheme, {
+      retakePolicy,
+      rounding: roundingPolicy,
+    });
+    setCgpaResult(result);
+    setCgpa(result.overall.gpa);
+  };
 
-    let totalPoints = 0;
-    let totalCredits = 0;
+  // Add a hypothetical course to the what-if scenario
+  const addHypotheticalCourse = () => {
+    const lastCourse = courses[courses.length - 1];
+    const hypotheticalCourse: Course = {
+      id: Date.now().toString(),
+      code: "",
+      grade: "",
+      creditHours: 3,
+      session: lastCourse?.session ?? getCurrentSession(),
+      semester: lastCourse?.semester ?? "first",
+    };
+    setScenario({
+      ...scenario,
+      hypotheticalCourses: [
+        ...scenario.hypotheticalCourses,
+        hypotheticalCourse,
+      ],
+    });
+  };
 
-    validCourses.forEach((course) => {
-      const points =
-        gradePoints[scale][
-          course.grade as keyof (typeof gradePoints)[typeof scale]
-        ] || 0;
-      totalPoints += points * course.creditHours;
-      totalCredits += course.creditHours;
+  // Apply the what-if scenario to the real course list
+  const commitScenario = () => {
+    history.record();
+    setCourses(applyScenario(courses, scenario));
+    setScenario(createEmptyScenario());
+    toast({
+      title: "Scenario Applied",
+      description: "Your simulated grades are now part of your course list.",
     });
+  };
 
-    const calculatedCGPA = totalCredits > 0 ? totalPoints / totalCredits : 0;
-    setCgpa(Math.round(calculatedCGPA * 100) / 100);
+  // Current state in the saved file format
+  const getSavedData = (): SavedData => ({
+    version: SAVED_DATA_VERSION,
+    courses,
+    schemeId,
+    retakePolicy,
+    roundingPolicy,
+    metadata,
+    student,
+    lastUpdated: new Date().toISOString(),
+  });
+
+  // Replace the current state with a parsed saved record
+  const applySavedData = (data: SavedData) => {
+    setCourses(data.courses);
+    setSchemeId(data.schemeId);
+    setRetakePolicy(data.retakePolicy);
+    setRoundingPolicy(data.roundingPolicy);
+    setMetadata(data.metadata);
+    setStudent(data.student);
+  };
+
+  // File-name friendly version of the active profile's name
+  const getProfileSlug = (profile: ProfileSummary | null) =>
+    (profile?.name ?? "profile")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+
+  // Download JSON, asking for a passphrase first when encryption is on
+  const saveJSON = (content: string, fileName: string, summary: string) => {
+    if (encryptDownloads) {
+      setPassphrasePrompt({
+        mode: "encrypt",
+        fileName: fileName.replace(/\.json$/, ".encrypted.json"),
+        content,
+        summary,
+      });
+      return;
+    }
+    downloadFile(content, fileName, "application/json");
+    toast({ title: "Data Downloaded", description: summary });
   };
 
   // Save data as JSON and download
   const downloadData = () => {
-    const dataToSave: SavedData = {
-      courses,
-      scale,
-      lastUpdated: new Date().toISOString(),
-    };
+    saveJSON(
+      JSON.stringify(getSavedData(), null, 2),
+      `cgpa-data-${getProfileSlug(activeProfile)}-${getFileDateStamp()}.json`,
+      "Your CGPA data has been saved successfully."
+    );
+  };
+
+  // Course list as a spreadsheet, with grade and quality points
+  const downloadCSV = () => {
+    downloadFile(
+      exportCoursesToCSV(courses, scheme),
+      `cgpa-courses-${getProfileSlug(activeProfile)}-${getFileDateStamp()}.csv`,
+      "text/csv"
+    );
+    toast({
+      title: "CSV Downloaded",
+      description: `Exported ${courses.length} courses.`,
+    });
+  };
 
-    const dataStr = JSON.stringify(dataToSave, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
+  // Apply an import in the chosen mode; replacing with a saved file also
+  // takes its scheme and policies
+  const confirmImport = (
+    mode: ImportMode,
+    nextCourses: Course[],
+    pending: PendingImport | null = pendingImport
+  ) => {
+    history.record();
+    if (mode === "replace" && pending?.data) {
+      applySavedData(pending.data);
+    } else {
+      setCourses(nextCourses);
+    }
+    setPendingImport(null);
+    toast({
+      title: "Data Loaded Successfully",
+      description:
+        mode === "replace"
+          ? `Loaded ${nextCourses.length} courses from ${pending?.source}.`
+          : `Your course list now has ${nextCourses.length} courses.`,
+    });
+  };
 
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `cgpa-data-${new Date().toISOString().split("T")[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // With nothing to merge into, an import simply replaces the empty list
+  const startImport = (pending: PendingImport) => {
+    if (courses.length === 0) {
+      confirmImport("replace", pending.courses, pending);
+    } else {
+      setPendingImport(pending);
+    }
+  };
 
+  const importCSVCourses = (imported: Course[]) =>
+    startImport({ source: "the CSV file", courses: imported });
+
+  // Add courses read from pasted portal results after the existing ones
+  const appendPastedCourses = (pasted: Course[]) => {
+    history.record();
+    setCourses([...courses, ...pasted]);
     toast({
-      title: "Data Downloaded",
-      description: "Your CGPA data has been saved successfully.",
+      title: "Courses Added",
+      description: `Added ${pasted.length} courses from the pasted results.`,
+    });
+  };
+
+  // Copy a link that carries this profile's data in its URL fragment
+  const copyShareLink = async () => {
+    try {
+      const link = await createShareLink(getSavedData(), window.location.href);
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Share Link Copied",
+        description:
+          link.length > 8000
+            ? "The link is very long; some chat apps may cut it short."
+            : "Anyone with the link can view this record. Nothing was uploaded.",
+      });
+    } catch (error) {
+      console.error("Share link error:", error);
+      toast({
+        title: "Could Not Copy Link",
+        description: "Your browser blocked clipboard access. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Drop the "#share=" fragment without adding a history entry
+  const closeSharedRecord = () => {
+    setSharedRecord(null);
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+  };
+
+  const importSharedRecord = () => {
+    if (!sharedRecord) return;
+    startImport({
+      source: "the shared link",
+      courses: sharedRecord.courses,
+      data: sharedRecord,
     });
+    closeSharedRecord();
+  };
+
+  // Download every profile as a single backup bundle
+  const downloadAllProfiles = async () => {
+    try {
+      const profiles = await profileStore.getAllProfileData();
+      saveJSON(
+        JSON.stringify(createProfilesBackup(profiles), null, 2),
+        `cgpa-profiles-backup-${getFileDateStamp()}.json`,
+        `Saved ${profiles.length} profiles to one file.`
+      );
+    } catch (error) {
+      console.error("Profile backup error:", error);
+      toast({
+        title: "Backup Failed",
+        description: "Your profiles could not be read. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   // Load data from JSON file
@@ -182,49 +675,108 @@ export default function CGPACalculator() {
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = (e) =>
+      loadJSON((e.target?.result as string) ?? "", file.name);
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  // Load the text of a JSON file: an encrypted file, a profiles backup or a
+  // single saved record
+  const loadJSON = async (result: string, fileName: string) => {
+    try {
+      let parsed: unknown = null;
       try {
-        const result = e.target?.result as string;
-        const data: SavedData = JSON.parse(result);
-
-        if (!data.courses || !Array.isArray(data.courses)) {
-          throw new Error("Invalid file format: courses array not found");
-        }
-
-        // Validate course structure
-        const validCourses = data.courses.filter(
-          (course) =>
-            course.id &&
-            course.code !== undefined &&
-            course.grade !== undefined &&
-            course.creditHours > 0
-        );
-
-        if (validCourses.length === 0) {
-          throw new Error("No valid courses found in file");
-        }
-
-        setCourses(validCourses);
-        setScale(data.scale || "5.0");
-        toast({
-          title: "Data Loaded Successfully",
-          description: `Loaded ${validCourses.length} courses from ${new Date(
-            data.lastUpdated
-          ).toLocaleDateString()}`,
+        parsed = JSON.parse(result);
+      } catch {
+        // Reported by parseSavedData below
+      }
+
+      if (isEncryptedFile(parsed)) {
+        setPassphrasePrompt({ mode: "decrypt", fileName, file: parsed });
+        return;
+      }
+
+      // A "backup all profiles" bundle adds each profile alongside yours
+      if (isProfilesBackup(parsed)) {
+        const profiles = parsed.profiles.map((profile) => {
+          try {
+            return {
+              name: profile.name,
+              data: parseSavedData(JSON.stringify(profile.data), {
+                allowEmpty: true,
+              }),
+            };
+          } catch (error) {
+            // Name the profile in every issue so the report stays readable
+            if (error instanceof SavedDataError) {
+              throw new SavedDataError(
+                `Profile "${profile.name}": ${error.message}`,
+                error.issues.map((issue) => ({
+                  ...issue,
+                  field: `${profile.name} › ${issue.field}`,
+                }))
+              );
+            }
+            throw error;
+          }
         });
-      } catch (error) {
+        setLoadError(null);
+        await profileStore.importProfiles(profiles);
         toast({
-          title: "Error Loading File",
-          description:
-            error instanceof Error
-              ? error.message
-              : "Failed to load data. Please check the file format.",
-          variant: "destructive",
+          title: "Profiles Imported",
+          description: `Added ${profiles.length} profiles from the backup.`,
         });
+        return;
       }
-    };
-    reader.readAsText(file);
-    event.target.value = "";
+
+      const data = parseSavedData(result);
+      setLoadError(null);
+      startImport({
+        source: `${fileName} (saved ${new Date(
+          data.lastUpdated
+        ).toLocaleDateString()})`,
+        courses: data.courses,
+        data,
+      });
+    } catch (error) {
+      const hasReport =
+        error instanceof SavedDataError && error.issues.length > 0;
+      setLoadError(hasReport ? error : null);
+      toast({
+        title: "Error Loading File",
+        description: hasReport
+          ? `${error.message}. See the report under Data Management.`
+          : error instanceof Error
+            ? error.message
+            : "Failed to load data. Please check the file format.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Encrypt a pending download, or unlock an encrypted file and load it;
+  // a wrong passphrase rejects so the dialog can say so
+  const submitPassphrase = async (passphrase: string) => {
+    if (!passphrasePrompt) return;
+    if (passphrasePrompt.mode === "encrypt") {
+      const encrypted = await encryptText(passphrasePrompt.content, passphrase);
+      downloadFile(
+        JSON.stringify(encrypted, null, 2),
+        passphrasePrompt.fileName,
+        "application/json"
+      );
+      setPassphrasePrompt(null);
+      toast({
+        title: "Encrypted File Downloaded",
+        description: passphrasePrompt.summary,
+      });
+      return;
+    }
+
+    const plainText = await decryptText(passphrasePrompt.file, passphrase);
+    setPassphrasePrompt(null);
+    await loadJSON(plainText, passphrasePrompt.fileName);
   };
 
   // Generate PDF transcript
@@ -238,14 +790,7 @@ export default function CGPACalculator() {
       return;
     }
 
-    const validCourses = courses.filter(
-      (course) =>
-        course.code.trim() !== "" &&
-        course.grade !== "" &&
-        course.creditHours > 0
-    );
-
-    if (validCourses.length === 0) {
+    if (cgpaResult.countedCourses.length === 0) {
       toast({
         title: "No Valid Courses",
         description:
@@ -256,176 +801,7 @@ export default function CGPACalculator() {
     }
 
     try {
-      const doc = new jsPDF();
-
-      // Header
-      doc.setFontSize(20);
-      doc.setFont("helvetica", "bold");
-      doc.text("UNIVERSITY OF LAGOS", 105, 20, { align: "center" });
-
-      doc.setFontSize(16);
-      doc.text("ACADEMIC TRANSCRIPT", 105, 30, { align: "center" });
-
-      // Document info section
-      const currentDate = new Date().toLocaleDateString();
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "normal");
-      doc.text(`Generated: ${currentDate}`, 20, 50);
-      doc.text(`Total Courses: ${validCourses.length}`, 20, 60);
-      doc.text(
-        `Total Credits: ${validCourses.reduce(
-          (sum, course) => sum + course.creditHours,
-          0
-        )}`,
-        20,
-        70
-      );
-
-      // CGPA Display
-      doc.setFontSize(14);
-      doc.setFont("helvetica", "bold");
-      doc.text("CUMULATIVE GRADE POINT AVERAGE (CGPA)", 20, 85);
-      doc.line(20, 87, 190, 87);
-
-      doc.setFontSize(16);
-      doc.text(`CGPA: ${cgpa.toFixed(2)} / ${scale}`, 20, 100);
-
-      if (scale === "5.0") {
-        const cgpa4Scale =
-          validCourses.reduce((total, course) => {
-            const points =
-              gradePoints["4.0"][
-                course.grade as keyof (typeof gradePoints)["4.0"]
-              ] || 0;
-            return total + points * course.creditHours;
-          }, 0) /
-          validCourses.reduce((sum, course) => sum + course.creditHours, 0);
-
-        doc.setFontSize(12);
-        doc.text(
-          `Equivalent 4.0 Scale: ${cgpa4Scale.toFixed(2)} / 4.0`,
-          20,
-          110
-        );
-      }
-
-      // Course Details Header
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      doc.text("COURSE DETAILS", 20, 130);
-      doc.line(20, 132, 190, 132);
-
-      // Table Headers
-      doc.setFontSize(10);
-      doc.text("S/N", 25, 145);
-      doc.text("Course Code", 45, 145);
-      doc.text("Grade", 85, 145);
-      doc.text("Credit Hours", 110, 145);
-      doc.text("Grade Points", 145, 145);
-      doc.text("Quality Points", 175, 145);
-
-      // Underline headers
-      doc.line(20, 147, 190, 147);
-
-      // Course rows
-      let yPosition = 160;
-      let totalCredits = 0;
-      let totalQualityPoints = 0;
-
-      validCourses.forEach((course, index) => {
-        const gradePoint =
-          gradePoints[scale][
-            course.grade as keyof (typeof gradePoints)[typeof scale]
-          ];
-        const qualityPoints = gradePoint * course.creditHours;
-
-        totalCredits += course.creditHours;
-        totalQualityPoints += qualityPoints;
-
-        doc.setFont("helvetica", "normal");
-        doc.text((index + 1).toString(), 25, yPosition);
-        doc.text(course.code, 45, yPosition);
-        doc.text(course.grade, 85, yPosition);
-        doc.text(course.creditHours.toString(), 110, yPosition);
-        doc.text(gradePoint.toFixed(1), 145, yPosition);
-        doc.text(qualityPoints.toFixed(1), 175, yPosition);
-
-        yPosition += 10;
-
-        // Start a new page if needed
-        if (yPosition > 250) {
-          doc.addPage();
-          yPosition = 30;
-        }
-      });
-
-      // Total row
-      yPosition += 5;
-      doc.line(20, yPosition, 190, yPosition);
-      yPosition += 10;
-      doc.setFont("helvetica", "bold");
-      doc.text("TOTAL", 45, yPosition);
-      doc.text(totalCredits.toString(), 110, yPosition);
-      doc.text(totalQualityPoints.toFixed(1), 175, yPosition);
-
-      // Grade scale legend
-      yPosition += 20;
-      if (yPosition > 240) {
-        doc.addPage();
-        yPosition = 30;
-      }
-
-      doc.setFontSize(10);
-      doc.setFont("helvetica", "bold");
-      doc.text("GRADING SCALE:", 20, yPosition);
-
-      doc.setFont("helvetica", "normal");
-      const gradeScale = [
-        "A = 5.0 (Excellent)",
-        "B = 4.0 (Very Good)",
-        "C = 3.0 (Good)",
-        "D = 2.0 (Fair)",
-        "E = 1.0 (Pass)",
-        "F = 0.0 (Fail)",
-      ];
-
-      gradeScale.forEach((grade, index) => {
-        yPosition += 8;
-        doc.text(grade, 20, yPosition);
-      });
-
-      // Class of degree guide
-      let degreeYPosition = yPosition - gradeScale.length * 8;
-      doc.setFont("helvetica", "bold");
-      doc.text("CLASS OF DEGREE GUIDE:", 110, degreeYPosition);
-
-      doc.setFont("helvetica", "normal");
-      const degreeClass = [
-        "First Class: 4.50 - 5.00",
-        "Second Class Upper: 3.50 - 4.49",
-        "Second Class Lower: 2.40 - 3.49",
-        "Third Class: 1.50 - 2.39",
-        "Pass: 1.00 - 1.49",
-      ];
-
-      degreeClass.forEach((cls, index) => {
-        degreeYPosition += 8;
-        doc.text(cls, 110, degreeYPosition);
-      });
-
-      // Footer
-      doc.setFontSize(8);
-      doc.text(
-        "This is a computer-generated transcript from UNILAG CGPA Calculator",
-        105,
-        280,
-        { align: "center" }
-      );
-
-      // Save PDF
-      doc.save(
-        `UNILAG_Transcript_${new Date().toISOString().split("T")[0]}.pdf`
-      );
+      createTranscriptPDF(getSavedData()).save(getTranscriptFileName(scheme));
 
       toast({
         title: "PDF Generated",
@@ -443,10 +819,90 @@ export default function CGPACalculator() {
     }
   };
 
-  // Calculate CGPA whenever courses or scale changes
+  // Download whatever is in storage as-is, so nothing is lost before a reset
+  const downloadCorruptedStorage = () => {
+    if (!corruptedStorage) return;
+    downloadFile(
+      corruptedStorage.raw,
+      `cgpa-data-unreadable-${getFileDateStamp()}.txt`,
+      "text/plain"
+    );
+  };
+
+  // Start the profile over; the next autosave replaces the unreadable data
+  const resetCorruptedStorage = () => {
+    history.clear();
+    applySavedData(createEmptySavedData());
+    setCorruptedStorage(null);
+    setLastSaved(null);
+    setIsHydrated(true);
+    toast({
+      title: "Saved Data Reset",
+      description: "Autosave is back on with a fresh record.",
+    });
+  };
+
+  // Autosave to the active profile after every change once restored
+  useEffect(() => {
+    if (!isHydrated || !activeProfile) return;
+    const data = getSavedData();
+    profileStore
+      .saveActiveProfile(data)
+      .then((saved) => saved && setLastSaved(data.lastUpdated))
+      .catch((error) => console.error("Autosave error:", error));
+  }, [
+    isHydrated,
+    activeProfile?.id,
+    courses,
+    schemeId,
+    retakePolicy,
+    roundingPolicy,
+    student,
+  ]);
+
+  // Open share links on load and when one is pasted into this tab
+  useEffect(() => {
+    const openShareLink = () => {
+      if (!isShareLink(window.location.hash)) return;
+      readShareLink(window.location.hash)
+        .then(setSharedRecord)
+        .catch((error) => {
+          toast({
+            title: "Could Not Open Link",
+            description:
+              error instanceof Error ? error.message : "The link is damaged.",
+            variant: "destructive",
+          });
+          closeSharedRecord();
+        });
+    };
+    openShareLink();
+    window.addEventListener("hashchange", openShareLink);
+    return () => window.removeEventListener("hashchange", openShareLink);
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) step through the edit history
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if (isUntrackedTextField(event.target) || isDialogOpen()) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Calculate CGPA whenever courses or grading scheme changes
   useEffect(() => {
     calculateCGPA();
-  }, [courses, scale]);
+  }, [courses, schemeId, retakePolicy, roundingPolicy]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -458,11 +914,72 @@ export default function CGPACalculator() {
           <p className="text-gray-600">
             Calculate your UNILAG CGPA and see 4.0 scale conversion
           </p>
+          <p className="text-sm text-gray-500 mt-1">
+            {corruptedStorage
+              ? "Autosave paused"
+              : lastSaved
+                ? `Last saved ${new Date(lastSaved).toLocaleString()}`
+                : "Not saved yet"}
+          </p>
         </div>
 
-        <Tabs defaultValue="calculator" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+        <ProfileSwitcher
+          profiles={profileStore.profiles}
+          activeProfile={activeProfile}
+          onSwitch={profileStore.switchProfile}
+          onCreate={profileStore.createProfile}
+          onRename={profileStore.renameProfile}
+          onDuplicate={profileStore.duplicateProfile}
+          onDelete={profileStore.deleteProfile}
+        />
+
+        {corruptedStorage && (
+          <Card className="border-red-200 bg-red-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-800">
+                <AlertTriangle className="h-5 w-5" />
+                Saved data could not be restored
+              </CardTitle>
+              <CardDescription className="text-red-700">
+                {corruptedStorage.error}. Download the raw data of this profile
+                to keep a copy, then reset it to start autosaving again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SavedDataIssues issues={corruptedStorage.issues} />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={downloadCorruptedStorage}
+                  className="flex items-center gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Download Raw Data
+                </Button>
+                <Button variant="destructive" onClick={resetCorruptedStorage}>
+                  Reset Saved Data
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {sharedRecord && (
+          <SharedRecordView
+            data={sharedRecord}
+            onImport={importSharedRecord}
+            onClose={closeSharedRecord}
+          />
+        )}
+
+        <Tabs
+          defaultValue="calculator"
+          className={sharedRecord ? "hidden" : "w-full"}
+        >
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="calculator">Calculator</TabsTrigger>
+            <TabsTrigger value="what-if">What-if</TabsTrigger>
+            <TabsTrigger value="planner">Planner</TabsTrigger>
             <TabsTrigger value="data-management">Data Management</TabsTrigger>
           </TabsList>
 
@@ -472,35 +989,170 @@ export default function CGPACalculator() {
               <CardHeader className="text-center">
                 <CardTitle className="text-2xl">Current CGPA</CardTitle>
                 <div className="flex items-center justify-center gap-4">
-                  <Badge variant="outline" className="text-lg px-4 py-2">
-                    {cgpa.toFixed(2)} / {scale}
-                  </Badge>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge
+                          variant="outline"
+                          className="text-lg px-4 py-2 cursor-help"
+                        >
+                          {formatGPA(cgpa, roundingPolicy)} /{" "}
+                          {scheme.maxScale.toFixed(1)}
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        Unrounded: {cgpaResult.overall.unroundedGPA.toFixed(6)}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                  <Select value={schemeId} onValueChange={changeScheme}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(gradingSchemes).map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-wrap items-center justify-center gap-2 pt-2">
+                  <Label htmlFor="rounding-method" className="text-gray-600">
+                    Rounding
+                  </Label>
+                  <Select
+                    value={roundingPolicy.method}
+                    onValueChange={(value: RoundingMethod) =>
+                      changeRoundingPolicy({ ...roundingPolicy, method: value })
+                    }
+                  >
+                    <SelectTrigger id="rounding-method" className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(
+                        Object.keys(roundingMethodLabels) as RoundingMethod[]
+                      ).map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {roundingMethodLabels[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <Select
-                    value={scale}
-                    onValueChange={(value: "4.0" | "5.0") => setScale(value)}
+                    value={roundingPolicy.decimals.toString()}
+                    onValueChange={(value) =>
+                      changeRoundingPolicy({
+                        ...roundingPolicy,
+                        decimals: value === "3" ? 3 : 2,
+                      })
+                    }
                   >
-                    <SelectTrigger className="w-24">
+                    <SelectTrigger className="w-36">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="5.0">UNILAG (5.0)</SelectItem>
-                      <SelectItem value="4.0">Standard (4.0)</SelectItem>
+                      <SelectItem value="2">2 decimals</SelectItem>
+                      <SelectItem value="3">3 decimals</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {cgpaResult.overall.courseCount > 0 &&
+                  (() => {
+                    const classification = getDegreeClassification(
+                      scheme,
+                      cgpa
+                    );
+                    return (
+                      <div className="flex flex-col items-center gap-2 pt-2">
+                        <Badge
+                          variant={
+                            classification.current ? "default" : "destructive"
+                          }
+                          className="text-sm px-3 py-1"
+                        >
+                          {classification.current?.name ??
+                            "Below the lowest class"}
+                        </Badge>
+                        <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                          {classification.nextUp && (
+                            <span>
+                              {classification.nextUp.distance.toFixed(
+                                roundingPolicy.decimals
+                              )}{" "}
+                              to {classification.nextUp.degreeClass.name}
+                            </span>
+                          )}
+                          {classification.nextDown && (
+                            <span>
+                              {classification.nextDown.distance.toFixed(
+                                roundingPolicy.decimals
+                              )}{" "}
+                              above {classification.nextDown.degreeClass.name}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()}
               </CardHeader>
             </Card>
 
             {/* Course Input */}
-            <Card>
+            <Card data-edit-history>
               <CardHeader>
-                <div>
-                  <CardTitle>Course Grades</CardTitle>
-                  <CardDescription>
-                    Add your UNILAG courses and grades (A=5.0, B=4.0, C=3.0,
-                    D=2.0, E=1.0, F=0)
-                  </CardDescription>
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  <div>
+                    <CardTitle>Course Grades</CardTitle>
+                    <CardDescription>
+                      Add your {scheme.institution} courses and grades (
+                      {scheme.grades
+                        .map((g) => `${g.grade}=${g.points}`)
+                        .join(", ")}
+                      )
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={history.undo}
+                      disabled={!history.canUndo}
+                      aria-label="Undo"
+                      title="Undo (Ctrl+Z)"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={history.redo}
+                      disabled={!history.canRedo}
+                      aria-label="Redo"
+                      title="Redo (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      id="score-input-mode"
+                      checked={gradeInputMode === "score"}
+                      onCheckedChange={(checked) =>
+                        setGradeInputMode(checked ? "score" : "grade")
+                      }
+                    />
+                    <Label htmlFor="score-input-mode">Enter scores</Label>
+                  </div>
                 </div>
+                {gradeInputMode === "score" && (
+                  <p className="text-sm text-gray-600">
+                    Score bands:{" "}
+                    {scheme.scoreBands
+                      .map((band) => `${band.min}-${band.max} ${band.grade}`)
+                      .join(", ")}
+                  </p>
+                )}
               </CardHeader>
               <CardContent className="space-y-4">
                 {(() => {
@@ -523,146 +1175,475 @@ export default function CGPACalculator() {
                     </p>
                   </div>
                 ) : (
-                  courses.map((course) => (
-                    <div
-                      key={course.id}
-                      className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 p-4 border rounded-lg"
-                    >
-                      <div className="space-y-2">
-                        <Label htmlFor={`code-${course.id}`}>Course Code</Label>
-                        <Input
-                          id={`code-${course.id}`}
-                          placeholder="e.g., CS101"
-                          value={course.code}
-                          onChange={(e) =>
-                            updateCourse(
-                              course.id,
-                              "code",
-                              e.target.value.toUpperCase()
-                            )
-                          }
-                          className={
-                            getDuplicateCourses().includes(
-                              course.code.trim().toLowerCase()
-                            )
-                              ? "border-yellow-400"
-                              : ""
-                          }
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`grade-${course.id}`}>Grade</Label>
-                        <Select
-                          value={course.grade}
-                          onValueChange={(value) =>
-                            updateCourse(course.id, "grade", value)
-                          }
-                        >
-                          <SelectTrigger id={`grade-${course.id}`}>
-                            <SelectValue placeholder="Select grade" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {gradeOptions.map((grade) => (
-                              <SelectItem key={grade} value={grade}>
-                                {grade} (
-                                {
-                                  gradePoints[scale][
-                                    grade as keyof (typeof gradePoints)[typeof scale]
-                                  ]
-                                }
-                                )
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor={`credits-${course.id}`}>
-                          Credit Hours
-                        </Label>
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              const newValue = Math.max(
-                                1,
-                                course.creditHours - 1
-                              );
-                              updateCourse(course.id, "creditHours", newValue);
-                            }}
-                            disabled={course.creditHours <= 1}
-                            className="h-10 w-10 p-0 flex-shrink-0"
+                  courseGroups.map((group) => {
+                    const result = cgpaResult.semesters.find(
+                      (semester) => semester.key === group.key
+                    );
+                    return (
+                      <div key={group.key} className="space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-2 border-b pb-2">
+                          <h3 className="font-semibold text-gray-900">
+                            {group.session || "Session not set"} &middot;{" "}
+                            {semesterLabels[group.semester]}
+                          </h3>
+                          {result && (
+                            <div className="flex flex-wrap gap-2">
+                              <Badge variant="secondary">
+                                GPA:{" "}
+                                {formatGPA(result.summary.gpa, roundingPolicy)}
+                              </Badge>
+                              <Badge variant="outline">
+                                CGPA to date:{" "}
+                                {formatGPA(
+                                  result.cumulative.gpa,
+                                  roundingPolicy
+                                )}
+                              </Badge>
+                              <Badge variant="outline">
+                                {result.summary.totalCredits} units
+                              </Badge>
+                            </div>
+                          )}
+                        </div>
+                        {group.courses.map((course) => (
+                          <div
+                            key={course.id}
+                            className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 p-4 border rounded-lg"
                           >
-                            -
-                          </Button>
-                          <Input
-                            id={`credits-${course.id}`}
-                            type="number"
-                            min="1"
-                            max="6"
-                            step="1"
-                            inputMode="numeric"
-                            pattern="[0-9]*"
-                            value={course.creditHours}
-                            onChange={(e) => {
-                              const value = parseInt(e.target.value) || 1;
-                              updateCourse(
-                                course.id,
-                                "creditHours",
-                                Math.max(1, Math.min(6, value))
-                              );
-                            }}
-                            className="text-center text-base flex-1 min-w-0"
-                            style={{ fontSize: "16px" }}
-                          />
+                            <div className="space-y-2">
+                              <Label htmlFor={`code-${course.id}`}>
+                                Course Code
+                              </Label>
+                              <Input
+                                id={`code-${course.id}`}
+                                placeholder="e.g., CS101"
+                                value={course.code}
+                                onChange={(e) =>
+                                  updateCourse(
+                                    course.id,
+                                    "code",
+                                    e.target.value.toUpperCase()
+                                  )
+                                }
+                                className={
+                                  getDuplicateCourses().includes(
+                                    normalizeCourseCode(course.code)
+                                  )
+                                    ? "border-yellow-400"
+                                    : ""
+                                }
+                              />
+                              {course.title && (
+                                <p className="text-xs text-gray-500">
+                                  {course.title}
+                                </p>
+                              )}
+                            </div>
+                            {gradeInputMode === "score" ||
+                            course.assessments ? (
+                              <div className="space-y-2">
+                                <Label htmlFor={`score-${course.id}`}>
+                                  Score
+                                </Label>
+                                <div className="flex items-center space-x-2">
+                                  <Input
+                                    id={`score-${course.id}`}
+                                    type="number"
+                                    min="0"
+                                    max={scheme.scoreBands[0]?.max ?? 100}
+                                    step="any"
+                                    inputMode="decimal"
+                                    placeholder="e.g., 67"
+                                    value={course.score ?? ""}
+                                    readOnly={!!course.assessments}
+                                    onChange={(e) =>
+                                      updateCourseScore(
+                                        course.id,
+                                        e.target.value
+                                      )
+                                    }
+                                    className="flex-1 min-w-0"
+                                  />
+                                  <Badge
+                                    variant="secondary"
+                                    className="h-10 px-3 flex-shrink-0"
+                                  >
+                                    {course.grade || "-"}
+                                  </Badge>
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="space-y-2">
+                                <Label htmlFor={`grade-${course.id}`}>
+                                  Grade
+                                </Label>
+                                <Select
+                                  value={course.grade}
+                                  onValueChange={(value) =>
+                                    updateCourse(course.id, "grade", value)
+                                  }
+                                >
+                                  <SelectTrigger id={`grade-${course.id}`}>
+                                    <SelectValue placeholder="Select grade" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {gradeOptions.map((grade) => (
+                                      <SelectItem key={grade} value={grade}>
+                                        {grade} ({getGradePoint(scheme, grade)})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                            <div className="space-y-2">
+                              <Label htmlFor={`credits-${course.id}`}>
+                                Credit Hours
+                              </Label>
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    const newValue = Math.max(
+                                      scheme.creditLimits.min,
+                                      course.creditHours - 1
+                                    );
+                                    updateCourse(
+                                      course.id,
+                                      "creditHours",
+                                      newValue
+                                    );
+                                  }}
+                                  disabled={
+                                    course.creditHours <=
+                                    scheme.creditLimits.min
+                                  }
+                                  className="h-10 w-10 p-0 flex-shrink-0"
+                                >
+                                  -
+                                </Button>
+                                <Input
+                                  id={`credits-${course.id}`}
+                                  type="number"
+                                  min={scheme.creditLimits.min}
+                                  max={scheme.creditLimits.max}
+                                  step="1"
+                                  inputMode="numeric"
+                                  pattern="[0-9]*"
+                                  value={course.creditHours}
+                                  onChange={(e) => {
+                                    const value =
+                                      parseInt(e.target.value) ||
+                                      scheme.creditLimits.min;
+                                    updateCourse(
+                                      course.id,
+                                      "creditHours",
+                                      Math.max(
+                                        scheme.creditLimits.min,
+                                        Math.min(scheme.creditLimits.max, value)
+                                      )
+                                    );
+                                  }}
+                                  className="text-center text-base flex-1 min-w-0"
+                                  style={{ fontSize: "16px" }}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    const newValue = Math.min(
+                                      scheme.creditLimits.max,
+                                      course.creditHours + 1
+                                    );
+                                    updateCourse(
+                                      course.id,
+                                      "creditHours",
+                                      newValue
+                                    );
+                                  }}
+                                  disabled={
+                                    course.creditHours >=
+                                    scheme.creditLimits.max
+                                  }
+                                  className="h-10 w-10 p-0 flex-shrink-0"
+                                >
+                                  +
+                                </Button>
+                              </div>
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor={`session-${course.id}`}>
+                                Session
+                              </Label>
+                              <Input
+                                id={`session-${course.id}`}
+                                placeholder="e.g., 2023/2024"
+                                value={course.session}
+                                onFocus={() =>
+                                  setSessionEdit({
+                                    courseId: course.id,
+                                    session: course.session,
+                                  })
+                                }
+                                onBlur={() => setSessionEdit(null)}
+                                onChange={(e) =>
+                                  updateCourse(
+                                    course.id,
+                                    "session",
+                                    e.target.value
+                                  )
+                                }
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor={`semester-${course.id}`}>
+                                Semester
+                              </Label>
+                              <Select
+                                value={course.semester}
+                                onValueChange={(value) =>
+                                  updateCourse(course.id, "semester", value)
+                                }
+                              >
+                                <SelectTrigger id={`semester-${course.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="first">
+                                    {semesterLabels.first}
+                                  </SelectItem>
+                                  <SelectItem value="second">
+                                    {semesterLabels.second}
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {(course.retakeOf !== undefined ||
+                              getEarlierAttempts(course).length > 0) && (
+                              <div className="space-y-2">
+                                <Label htmlFor={`retake-${course.id}`}>
+                                  Retake of
+                                </Label>
+                                <Select
+                                  value={course.retakeOf ?? NOT_A_RETAKE}
+                                  onValueChange={(value) =>
+                                    markRetake(
+                                      course.id,
+                                      value === NOT_A_RETAKE ? undefined : value
+                                    )
+                                  }
+                                >
+                                  <SelectTrigger id={`retake-${course.id}`}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={NOT_A_RETAKE}>
+                                      Not a retake
+                                    </SelectItem>
+                                    {getEarlierAttempts(course).map(
+                                      (attempt) => (
+                                        <SelectItem
+                                          key={attempt.id}
+                                          value={attempt.id}
+                                        >
+                                          {attempt.session || "No session"},{" "}
+                                          {semesterLabels[attempt.semester]} (
+                                          {attempt.grade || "-"})
+                                        </SelectItem>
+                                      )
+                                    )}
+                                  </SelectContent>
+                                </Select>
+                                {course.retakeOf !== undefined &&
+                                  !getEarlierAttempts(course).some(
+                                    (attempt) => attempt.id === course.retakeOf
+                                  ) && (
+                                    <p className="text-xs text-yellow-700">
+                                      The linked attempt is not from an earlier
+                                      semester, so the link is ignored.
+                                    </p>
+                                  )}
+                                {retakePolicy.mode !== "count-all" &&
+                                  getSupersededCourseIds(courses).has(
+                                    course.id
+                                  ) && (
+                                    <p className="text-xs text-gray-500">
+                                      Replaced by a retake; not counted.
+                                    </p>
+                                  )}
+                              </div>
+                            )}
+                            <div className="flex items-end gap-2 sm:col-span-2 lg:col-span-1">
+                              <Button
+                                variant={
+                                  course.assessments ? "secondary" : "outline"
+                                }
+                                onClick={() =>
+                                  toggleCourseAssessments(course.id)
+                                }
+                                className="flex items-center gap-2 flex-1 sm:flex-none"
+                              >
+                                <ListChecks className="h-4 w-4" />
+                                CA + Exam
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => removeCourse(course.id)}
+                                className="text-red-600 hover:text-red-700 w-full sm:w-auto"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="ml-2 sm:hidden">
+                                  Remove Course
+                                </span>
+                              </Button>
+                            </div>
+                            {course.assessments && (
+                              <div className="sm:col-span-2 lg:col-span-3">
+                                <AssessmentBreakdown
+                                  courseId={course.id}
+                                  parts={course.assessments}
+                                  scheme={scheme}
+                                  onChange={(parts) =>
+                                    updateCourseAssessments(course.id, parts)
+                                  }
+                                />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        <div className="flex justify-end">
                           <Button
-                            type="button"
-                            variant="outline"
+                            variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              const newValue = Math.min(
-                                6,
-                                course.creditHours + 1
-                              );
-                              updateCourse(course.id, "creditHours", newValue);
-                            }}
-                            disabled={course.creditHours >= 6}
-                            className="h-10 w-10 p-0 flex-shrink-0"
+                            onClick={() =>
+                              addCourse(group.session, group.semester)
+                            }
+                            className="flex items-center gap-2"
                           >
-                            +
+                            <Plus className="h-4 w-4" />
+                            Add Course to {semesterLabels[group.semester]}
                           </Button>
                         </div>
                       </div>
-                      <div className="flex items-end sm:col-span-2 lg:col-span-1">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => removeCourse(course.id)}
-                          className="text-red-600 hover:text-red-700 w-full sm:w-auto"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          <span className="ml-2 sm:hidden">Remove Course</span>
-                        </Button>
-                      </div>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
 
                 {/* Add Course button moved to bottom */}
-                <div className="flex justify-center pt-4">
+                <div className="flex flex-wrap justify-center gap-2 pt-4">
                   <Button
-                    onClick={addCourse}
+                    onClick={() => addCourse()}
                     className="flex items-center gap-2"
                   >
                     <Plus className="h-4 w-4" />
                     Add Course
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsPasteOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <ClipboardPaste className="h-4 w-4" />
+                    Paste Results
+                  </Button>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Retakes and carry-overs */}
+            {courses.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Retakes &amp; Carry-overs</CardTitle>
+                  <CardDescription>
+                    Choose how retaken courses count towards your CGPA
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="retake-policy">Retake policy</Label>
+                      <Select
+                        value={retakePolicy.mode}
+                        onValueChange={(value: RetakePolicyMode) =>
+                          changeRetakePolicy({ ...retakePolicy, mode: value })
+                        }
+                      >
+                        <SelectTrigger id="retake-policy" className="w-72">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(
+                            Object.keys(
+                              retakePolicyLabels
+                            ) as RetakePolicyMode[]
+                          ).map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {retakePolicyLabels[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {retakePolicy.mode === "cap" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="retake-cap">Highest retake grade</Label>
+                        <Select
+                          value={retakePolicy.capGrade}
+                          onValueChange={(value) =>
+                            changeRetakePolicy({
+                              ...retakePolicy,
+                              capGrade: value,
+                            })
+                          }
+                        >
+                          <SelectTrigger id="retake-cap" className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {gradeOptions.map((grade) => (
+                              <SelectItem key={grade} value={grade}>
+                                {grade}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                  {(() => {
+                    const carryOvers = getOutstandingCarryOvers(
+                      courses,
+                      scheme
+                    );
+                    return carryOvers.length === 0 ? (
+                      <p className="text-sm text-gray-600">
+                        No outstanding carry-overs.
+                      </p>
+                    ) : (
+                      <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                        <p className="text-sm font-semibold text-red-800">
+                          Outstanding carry-overs ({carryOvers.length})
+                        </p>
+                        {carryOvers.map((course) => (
+                          <p key={course.id} className="text-sm text-red-800">
+                            {course.code} &middot; {course.creditHours} units
+                            &middot; failed in{" "}
+                            {course.session || "unknown session"},{" "}
+                            {semesterLabels[course.semester]}
+                          </p>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Summary */}
             {courses.length > 0 && (
               <Card>
@@ -698,9 +1679,11 @@ export default function CGPACalculator() {
                     </div>
                     <div>
                       <p className="text-2xl font-bold text-orange-600">
-                        {cgpa.toFixed(2)}
+                        {formatGPA(cgpa, roundingPolicy)}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        CGPA ({scheme.name})
                       </p>
-                      <p className="text-sm text-gray-600">CGPA</p>
                     </div>
                   </div>
                 </CardContent>
@@ -708,7 +1691,40 @@ export default function CGPACalculator() {
             )}
           </TabsContent>
 
+          <TabsContent value="what-if" className="space-y-6">
+            <WhatIfSandbox
+              courses={courses}
+              scheme={scheme}
+              scenario={scenario}
+              realCGPA={cgpa}
+              rounding={roundingPolicy}
+              simulatedCGPA={
+                computeCGPA(applyScenario(courses, scenario), scheme, {
+                  retakePolicy,
+                  rounding: roundingPolicy,
+                }).overall.gpa
+              }
+              onScenarioChange={setScenario}
+              onAddHypotheticalCourse={addHypotheticalCourse}
+              onCommit={commitScenario}
+              onDiscard={() => setScenario(createEmptyScenario())}
+            />
+          </TabsContent>
+
+          <TabsContent value="planner" className="space-y-6">
+            <TargetPlanner
+              scheme={scheme}
+              totalPoints={cgpaResult.overall.qualityPoints}
+              totalCredits={cgpaResult.overall.totalCredits}
+              rounding={roundingPolicy}
+            />
+          </TabsContent>
+
           <TabsContent value="data-management" className="space-y-6">
+            <div data-edit-history>
+              <StudentDetailsForm student={student} onChange={updateStudent} />
+            </div>
+
             <Card>
               <CardHeader>
                 <CardTitle>Data Management</CardTitle>
@@ -717,6 +1733,16 @@ export default function CGPACalculator() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="encrypt-downloads"
+                    checked={encryptDownloads}
+                    onCheckedChange={setEncryptDownloads}
+                  />
+                  <Label htmlFor="encrypt-downloads">
+                    Encrypt JSON downloads with a passphrase
+                  </Label>
+                </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label>Download Data</Label>
@@ -728,7 +1754,7 @@ export default function CGPACalculator() {
                       Download JSON
                     </Button>
                     <p className="text-sm text-gray-600">
-                      Save your current progress as a JSON file
+                      Save this profile&apos;s progress as a JSON file
                     </p>
                   </div>
                   <div className="space-y-2">
@@ -753,10 +1779,11 @@ export default function CGPACalculator() {
                       </Button>
                     </div>
                     <p className="text-sm text-gray-600">
-                      Load previously saved data from a JSON file
+                      Load a saved file into this profile, or restore a profiles
+                      backup
                     </p>
                   </div>
-                  <div className="space-y-2 sm:col-span-2 lg:col-span-1">
+                  <div className="space-y-2">
                     <Label>Generate Transcript</Label>
                     <Button
                       onClick={generatePDF}
@@ -770,8 +1797,90 @@ export default function CGPACalculator() {
                       Generate a formatted academic transcript
                     </p>
                   </div>
+                  <div className="space-y-2">
+                    <Label>Backup All Profiles</Label>
+                    <Button
+                      onClick={downloadAllProfiles}
+                      variant="outline"
+                      className="w-full flex items-center gap-2"
+                    >
+                      <Archive className="h-4 w-4" />
+                      Download Backup
+                    </Button>
+                    <p className="text-sm text-gray-600">
+                      Save every profile on this device in one file
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Share Link</Label>
+                    <Button
+                      onClick={copyShareLink}
+                      variant="outline"
+                      className="w-full flex items-center gap-2"
+                      disabled={courses.length === 0}
+                    >
+                      <Link2 className="h-4 w-4" />
+                      Copy Link
+                    </Button>
+                    <p className="text-sm text-gray-600">
+                      A read-only link with your data inside; nothing is
+                      uploaded
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Export CSV</Label>
+                    <Button
+                      onClick={downloadCSV}
+                      variant="outline"
+                      className="w-full flex items-center gap-2"
+                      disabled={courses.length === 0}
+                    >
+                      <FileSpreadsheet className="h-4 w-4" />
+                      Download CSV
+                    </Button>
+                    <p className="text-sm text-gray-600">
+                      Course list with grade points and quality points for
+                      spreadsheets
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Import CSV</Label>
+                    <Button
+                      onClick={() => setIsCsvImportOpen(true)}
+                      variant="outline"
+                      className="w-full flex items-center gap-2"
+                    >
+                      <Upload className="h-4 w-4" />
+                      Import CSV
+                    </Button>
+                    <p className="text-sm text-gray-600">
+                      Map spreadsheet columns to courses and preview them first
+                    </p>
+                  </div>
                 </div>
 
+                {loadError && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h4 className="font-semibold text-red-800">
+                        File not loaded: {loadError.message}
+                      </h4>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLoadError(null)}
+                      >
+                        Dismiss
+                      </Button>
+                    </div>
+                    <SavedDataIssues issues={loadError.issues} />
+                    <p className="text-sm text-red-700">
+                      Fix these fields in the file and load it again. Nothing
+                      was changed.
+                    </p>
+                  </div>
+                )}
+
                 {courses.length > 0 && (
                   <div className="mt-6 p-4 bg-gray-50 rounded-lg">
                     <h4 className="font-semibold mb-2">
@@ -781,7 +1890,7 @@ export default function CGPACalculator() {
                       {JSON.stringify(
                         {
                           courses: courses.slice(0, 2),
-                          scale,
+                          schemeId,
                           totalCourses: courses.length,
                         },
                         null,
@@ -792,8 +1901,49 @@ export default function CGPACalculator() {
                 )}
               </CardContent>
             </Card>
+
+            <RecordCompare currentData={getSavedData()} />
           </TabsContent>
         </Tabs>
+
+        <SyncConflictDialog
+          conflict={profileStore.conflict}
+          mine={getSavedData()}
+          onResolve={(resolution) =>
+            profileStore.resolveConflict(resolution, getSavedData())
+          }
+        />
+
+        <CsvImportDialog
+          open={isCsvImportOpen}
+          onOpenChange={setIsCsvImportOpen}
+          scheme={scheme}
+          defaultSession={getCurrentSession()}
+          onImport={importCSVCourses}
+        />
+        <PassphraseDialog
+          mode={passphrasePrompt?.mode ?? null}
+          fileName={passphrasePrompt?.fileName ?? ""}
+          onSubmit={submitPassphrase}
+          onCancel={() => setPassphrasePrompt(null)}
+        />
+        <ImportModeDialog
+          pending={pendingImport}
+          currentCourses={courses}
+          currentSchemeId={schemeId}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={confirmImport}
+        />
+        <PasteResultsDialog
+          open={isPasteOpen}
+          onOpenChange={setIsPasteOpen}
+          scheme={scheme}
+          defaultSession={
+            courses[courses.length - 1]?.session ?? getCurrentSession()
+          }
+          defaultSemester={courses[courses.length - 1]?.semester ?? "first"}
+          onAppend={appendPastedCourses}
+        />
       </div>
     </div>
   );
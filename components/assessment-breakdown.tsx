@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  type AssessmentPart,
+  getAssessmentTotal,
+  getRequiredScore,
+} from "@/lib/assessments";
+import { type GradingScheme, getGradePoint } from "@/lib/grading-schemes";
+
+interface AssessmentBreakdownProps {
+  courseId: string;
+  parts: AssessmentPart[];
+  scheme: GradingScheme;
+  onChange: (parts: AssessmentPart[]) => void;
+}
+
+export function AssessmentBreakdown({
+  courseId,
+  parts,
+  scheme,
+  onChange,
+}: AssessmentBreakdownProps) {
+  const [targetGrade, setTargetGrade] = useState<string>("B");
+
+  const total = getAssessmentTotal(parts);
+  const requirement = getRequiredScore(scheme, parts, targetGrade);
+  const remainingParts = parts
+    .filter((part) => part.score === undefined)
+    .map((part) => part.name || "remaining parts");
+
+  const updatePart = (id: string, changes: Partial<AssessmentPart>) => {
+    onChange(
+      parts.map((part) => (part.id === id ? { ...part, ...changes } : part))
+    );
+  };
+
+  const updatePartScore = (part: AssessmentPart, value: string) => {
+    const parsed = parseFloat(value);
+    updatePart(part.id, {
+      score: Number.isNaN(parsed)
+        ? undefined
+        : Math.max(0, Math.min(part.weight, parsed)),
+    });
+  };
+
+  // A recorded score never exceeds what the part is out of
+  const updatePartWeight = (part: AssessmentPart, value: string) => {
+    const weight = Math.max(1, parseInt(value) || 1);
+    updatePart(part.id, {
+      weight,
+      score:
+        part.score === undefined ? undefined : Math.min(part.score, weight),
+    });
+  };
+
+  const addPart = () => {
+    onChange([...parts, { id: Date.now().toString(), name: "", weight: 10 }]);
+  };
+
+  const removePart = (id: string) => {
+    onChange(parts.filter((part) => part.id !== id));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+      {parts.map((part) => (
+        <div key={part.id} className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-5 space-y-1">
+            <Label htmlFor={`part-name-${courseId}-${part.id}`}>Part</Label>
+            <Input
+              id={`part-name-${courseId}-${part.id}`}
+              placeholder="e.g., Test 1"
+              value={part.name}
+              onChange={(e) => updatePart(part.id, { name: e.target.value })}
+            />
+          </div>
+          <div className="col-span-3 space-y-1">
+            <Label htmlFor={`part-score-${courseId}-${part.id}`}>Score</Label>
+            <Input
+              id={`part-score-${courseId}-${part.id}`}
+              type="number"
+              min="0"
+              max={part.weight}
+              step="any"
+              inputMode="decimal"
+              value={part.score ?? ""}
+              onChange={(e) => updatePartScore(part, e.target.value)}
+            />
+          </div>
+          <div className="col-span-3 space-y-1">
+            <Label htmlFor={`part-weight-${courseId}-${part.id}`}>Out of</Label>
+            <Input
+              id={`part-weight-${courseId}-${part.id}`}
+              type="number"
+              min="1"
+              step="1"
+              inputMode="numeric"
+              value={part.weight}
+              onChange={(e) => updatePartWeight(part, e.target.value)}
+            />
+          </div>
+          <div className="col-span-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removePart(part.id)}
+              disabled={parts.length <= 1}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={addPart}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Part
+        </Button>
+        <p className="text-sm text-gray-600">
+          Total: {total.score} / {total.totalWeight}
+          {!total.complete && ` (${total.recordedWeight} marks recorded)`}
+        </p>
+      </div>
+
+      {total.totalWeight !== 100 && (
+        <p className="text-sm text-yellow-800">
+          Parts add up to {total.totalWeight} marks; score bands expect 100.
+        </p>
+      )}
+
+      {!total.complete && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>To get</span>
+          <Select value={targetGrade} onValueChange={setTargetGrade}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scheme.scoreBands.map((band) => (
+                <SelectItem key={band.grade} value={band.grade}>
+                  {band.grade} ({getGradePoint(scheme, band.grade)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {requirement &&
+            (requirement.secured ? (
+              <span className="text-green-700">
+                you have already secured it.
+              </span>
+            ) : requirement.achievable ? (
+              <span>
+                you need{" "}
+                <strong>
+                  {requirement.required} / {requirement.remainingWeight}
+                </strong>{" "}
+                in {remainingParts.join(" + ")}.
+              </span>
+            ) : (
+              <span className="text-red-700">
+                it is out of reach: you would need {requirement.required} but
+                only {requirement.remainingWeight} marks remain.
+              </span>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  type CourseCsvField,
+  type CourseCsvMapping,
+  courseCsvFieldLabels,
+  getCourseCsvMappingErrors,
+  guessCourseCsvMapping,
+  mapCourseCsvRows,
+} from "@/lib/course-csv";
+import { parseCSV } from "@/lib/csv";
+import type { GradingScheme } from "@/lib/grading-schemes";
+import { semesterLabels } from "@/lib/sessions";
+import type { Course } from "@/lib/types";
+
+// Radix Select items cannot use an empty value
+const NOT_IN_FILE = "__none";
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheme: GradingScheme;
+  // Used for rows without a session column or value
+  defaultSession: string;
+  onImport: (courses: Course[]) => void;
+}
+
+export function CsvImportDialog({
+  open,
+  onOpenChange,
+  scheme,
+  defaultSession,
+  onImport,
+}: CsvImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CourseCsvMapping>(() =>
+    guessCourseCsvMapping([])
+  );
+
+  const reset = () => {
+    setFileName("");
+    setRows(null);
+    setFileError(null);
+    setHasHeader(true);
+    setMapping(guessCourseCsvMapping([]));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const readFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const parsed = parseCSV((e.target?.result as string) ?? "");
+      setFileName(file.name);
+      if (parsed.length === 0) {
+        setRows(null);
+        setFileError("The file has no rows");
+        return;
+      }
+      setRows(parsed);
+      setFileError(null);
+      setHasHeader(true);
+      setMapping(guessCourseCsvMapping(parsed[0]));
+    };
+    reader.readAsText(file);
+  };
+
+  const columnCount = rows ? Math.max(...rows.map((cells) => cells.length)) : 0;
+  const columnLabel = (index: number) => {
+    const header = hasHeader ? rows?.[0]?.[index]?.trim() : "";
+    return `Column ${index + 1}${header ? `: ${header}` : ""}`;
+  };
+
+  const mappingErrors = getCourseCsvMappingErrors(mapping);
+  const dataRows = rows ? rows.slice(hasHeader ? 1 : 0) : [];
+  const preview =
+    mappingErrors.length === 0
+      ? mapCourseCsvRows(dataRows, mapping, scheme, {
+          session: defaultSession,
+          semester: "first",
+          firstRowNumber: hasHeader ? 2 : 1,
+        })
+      : [];
+  const validCourses = preview
+    .map((row) => row.course)
+    .filter((course): course is Course => course !== null);
+  const invalidCount = preview.length - validCourses.length;
+
+  const importCourses = () => {
+    onImport(validCourses);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Courses from CSV</DialogTitle>
+          <DialogDescription>
+            Pick a spreadsheet export, match its columns to course fields and
+            check the preview. You choose how the rows join your courses next.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="csv-file">CSV file</Label>
+          <Input
+            id="csv-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={readFile}
+          />
+          {fileName && (
+            <p className="text-sm text-gray-600">
+              {fileName}: {dataRows.length} rows
+            </p>
+          )}
+          {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+        </div>
+
+        {rows && (
+          <>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="csv-has-header"
+                checked={hasHeader}
+                onCheckedChange={setHasHeader}
+              />
+              <Label htmlFor="csv-has-header">First row is a header</Label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(courseCsvFieldLabels) as CourseCsvField[]).map(
+                (field) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`csv-map-${field}`}>
+                      {courseCsvFieldLabels[field]}
+                    </Label>
+                    <Select
+                      value={
+                        mapping[field] === null
+                          ? NOT_IN_FILE
+                          : String(mapping[field])
+                      }
+                      onValueChange={(value) =>
+                        setMapping({
+                          ...mapping,
+                          [field]: value === NOT_IN_FILE ? null : Number(value),
+                        })
+                      }
+                    >
+                      <SelectTrigger id={`csv-map-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {columnLabel(index)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+              )}
+            </div>
+            {(mapping.session === null || mapping.semester === null) && (
+              <p className="text-sm text-gray-600">
+                Rows without a session or semester go into {defaultSession},{" "}
+                {semesterLabels.first}.
+              </p>
+            )}
+
+            {mappingErrors.length > 0 ? (
+              <ul className="text-sm text-red-600 list-disc pl-5">
+                {mappingErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="border rounded-lg max-h-72 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Units</TableHead>
+                      <TableHead>Grade</TableHead>
+                      <TableHead>Semester</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((row) => (
+                      <TableRow
+                        key={row.rowNumber}
+                        className={row.course ? "" : "bg-red-50"}
+                      >
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>
+                          {row.course?.code ??
+                            row.cells[mapping.code ?? 0] ??
+                            ""}
+                        </TableCell>
+                        <TableCell>{row.course?.creditHours ?? "-"}</TableCell>
+                        <TableCell>
+                          {row.course
+                            ? `${row.course.grade}${
+                                row.course.score !== undefined
+                                  ? ` (${row.course.score})`
+                                  : ""
+                              }`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {row.course
+                            ? `${row.course.session} ${semesterLabels[row.course.semester]}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {row.course ? (
+                            <Badge variant="secondary">Ready</Badge>
+                          ) : (
+                            <ul className="text-xs text-red-700 space-y-0.5">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:items-center">
+          {preview.length > 0 && (
+            <p className="text-sm text-gray-600 sm:mr-auto">
+              {validCourses.length} of {preview.length} rows ready
+              {invalidCount > 0 &&
+                `; ${invalidCount} with errors will be skipped`}
+            </p>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={importCourses} disabled={validCourses.length === 0}>
+            Continue ({validCourses.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  type ConflictChoice,
+  type ImportMode,
+  appendCourses,
+  applyCourseMerge,
+  importModeLabels,
+  planCourseMerge,
+} from "@/lib/course-merge";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import { semesterLabels } from "@/lib/sessions";
+import type { Course, SavedData } from "@/lib/types";
+
+export interface PendingImport {
+  // Where the courses came from, e.g. the file name
+  source: string;
+  courses: Course[];
+  // The full saved record, when importing one; replacing also takes its settings
+  data?: SavedData;
+}
+
+interface ImportModeDialogProps {
+  pending: PendingImport | null;
+  currentCourses: Course[];
+  currentSchemeId: string;
+  onCancel: () => void;
+  onConfirm: (mode: ImportMode, courses: Course[]) => void;
+}
+
+const describeCourse = (course: Course) =>
+  `${course.grade || "No grade"}, ${course.creditHours} units · ${
+    course.session
+  } ${semesterLabels[course.semester]}`;
+
+export function ImportModeDialog({
+  pending,
+  currentCourses,
+  currentSchemeId,
+  onCancel,
+  onConfirm,
+}: ImportModeDialogProps) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const imported = pending?.courses ?? [];
+  const plan = planCourseMerge(currentCourses, imported);
+  const schemeMismatch =
+    pending?.data !== undefined && pending.data.schemeId !== currentSchemeId;
+
+  const close = () => {
+    setMode("merge");
+    setChoices({});
+    onCancel();
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    const next: Record<string, ConflictChoice> = {};
+    plan.conflicts.forEach((conflict) => {
+      next[conflict.key] = choice;
+    });
+    setChoices(next);
+  };
+
+  const confirm = () => {
+    const result =
+      mode === "replace"
+        ? imported
+        : mode === "append"
+          ? appendCourses(currentCourses, imported)
+          : applyCourseMerge(currentCourses, plan, choices);
+    onConfirm(mode, result);
+    setMode("merge");
+    setChoices({});
+  };
+
+  const summary =
+    mode === "replace"
+      ? `Your ${currentCourses.length} courses will be replaced by ${imported.length} imported courses${
+          pending?.data ? ", along with the file's scheme and policies" : ""
+        }.`
+      : mode === "append"
+        ? `${imported.length} courses will be added after your ${currentCourses.length}; repeated codes are flagged as duplicates.`
+        : `${plan.additions.length} new courses will be added, ${plan.unchangedCount} already match and ${plan.conflicts.length} differ.`;
+
+  return (
+    <Dialog open={pending !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Courses</DialogTitle>
+          <DialogDescription>
+            {imported.length} courses from {pending?.source}. Choose how they
+            join the courses you already have.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={mode}
+          onValueChange={(value) => setMode(value as ImportMode)}
+        >
+          {(Object.keys(importModeLabels) as ImportMode[]).map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`import-mode-${option}`} />
+              <Label htmlFor={`import-mode-${option}`}>
+                {importModeLabels[option]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <p className="text-sm text-gray-600">{summary}</p>
+        {schemeMismatch && mode !== "replace" && pending?.data && (
+          <p className="text-sm text-yellow-800">
+            The file uses the {getGradingScheme(pending.data.schemeId).name}{" "}
+            scheme; its grades are imported as they are.
+          </p>
+        )}
+
+        {mode === "merge" && plan.conflicts.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h4 className="font-semibold">
+                Conflicts{" "}
+                <Badge variant="secondary">{plan.conflicts.length}</Badge>
+              </h4>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => chooseAll("current")}
+                >
+                  Keep all mine
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => chooseAll("imported")}
+                >
+                  Use all imported
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2 max-h-72 overflow-auto">
+              {plan.conflicts.map((conflict) => (
+                <div key={conflict.key} className="p-3 border rounded-lg">
+                  <p className="font-medium mb-2">{conflict.current.code}</p>
+                  <RadioGroup
+                    value={choices[conflict.key] ?? "current"}
+                    onValueChange={(value) =>
+                      setChoices({
+                        ...choices,
+                        [conflict.key]: value as ConflictChoice,
+                      })
+                    }
+                    className="grid-cols-1 sm:grid-cols-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem
+                        value="current"
+                        id={`conflict-${conflict.key}-current`}
+                      />
+                      <Label
+                        htmlFor={`conflict-${conflict.key}-current`}
+                        className="font-normal"
+                      >
+                        Mine: {describeCourse(conflict.current)}
+                      </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem
+                        value="imported"
+                        id={`conflict-${conflict.key}-imported`}
+                      />
+                      <Label
+                        htmlFor={`conflict-${conflict.key}-imported`}
+                        className="font-normal"
+                      >
+                        Imported: {describeCourse(conflict.imported)}
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button onClick={confirm}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
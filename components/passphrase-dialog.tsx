@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Lock } from "lucide-react";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/encryption";
+
+interface PassphraseDialogProps {
+  // "encrypt" asks for a new passphrase twice; "decrypt" asks once
+  mode: "encrypt" | "decrypt" | null;
+  fileName: string;
+  // Rejects with a message to show, e.g. for a wrong passphrase
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function PassphraseDialog({
+  mode,
+  fileName,
+  onSubmit,
+  onCancel,
+}: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirmation("");
+    setError(null);
+    setIsWorking(false);
+  };
+
+  const cancel = () => {
+    reset();
+    onCancel();
+  };
+
+  const submit = async () => {
+    if (mode === "encrypt") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(
+          `Use at least ${MIN_PASSPHRASE_LENGTH} characters for the passphrase`
+        );
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("The passphrases do not match");
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+      reset();
+    } catch (submitError) {
+      setIsWorking(false);
+      setError(
+        submitError instanceof Error ? submitError.message : "Please try again"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && cancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {mode === "encrypt" ? "Encrypt Download" : "Encrypted File"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "encrypt"
+              ? `${fileName} will be encrypted in your browser. Without the passphrase it cannot be opened again, so keep it somewhere safe.`
+              : `${fileName} is encrypted. Enter its passphrase to load it.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+          className="space-y-3"
+        >
+          <div className="space-y-1">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete={
+                mode === "encrypt" ? "new-password" : "current-password"
+              }
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+          {mode === "encrypt" && (
+            <div className="space-y-1">
+              <Label htmlFor="passphrase-confirmation">Repeat passphrase</Label>
+              <Input
+                id="passphrase-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!passphrase || isWorking}>
+              {mode === "encrypt" ? "Encrypt & Download" : "Unlock"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { GradingScheme } from "@/lib/grading-schemes";
+import {
+  type PasteConfidence,
+  type PastedResultLine,
+  isPastedLineComplete,
+  parsePastedResults,
+  pastedLineToCourse,
+} from "@/lib/result-paste";
+import { semesterLabels } from "@/lib/sessions";
+import type { Course, Semester } from "@/lib/types";
+
+const confidenceStyles: Record<PasteConfidence, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-red-100 text-red-800",
+};
+
+interface PasteResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheme: GradingScheme;
+  // Used until the pasted text names a session or semester itself
+  defaultSession: string;
+  defaultSemester: Semester;
+  onAppend: (courses: Course[]) => void;
+}
+
+export function PasteResultsDialog({
+  open,
+  onOpenChange,
+  scheme,
+  defaultSession,
+  defaultSemester,
+  onAppend,
+}: PasteResultsDialogProps) {
+  const [text, setText] = useState("");
+  const [lines, setLines] = useState<PastedResultLine[] | null>(null);
+  // Line numbers the user chose to leave out
+  const [skipped, setSkipped] = useState<Record<number, boolean>>({});
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setText("");
+      setLines(null);
+      setSkipped({});
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const parse = () => {
+    const parsed = parsePastedResults(text, scheme, {
+      session: defaultSession,
+      semester: defaultSemester,
+    });
+    setLines(parsed);
+    // Lines without a course code are usually table headers or page noise
+    const noise: Record<number, boolean> = {};
+    parsed.forEach((line) => {
+      if (!line.code) noise[line.lineNumber] = true;
+    });
+    setSkipped(noise);
+  };
+
+  const updateLine = (lineNumber: number, changes: Partial<PastedResultLine>) =>
+    setLines(
+      (current) =>
+        current?.map((line) =>
+          line.lineNumber === lineNumber ? { ...line, ...changes } : line
+        ) ?? null
+    );
+
+  const readyLines = (lines ?? []).filter(
+    (line) => !skipped[line.lineNumber] && isPastedLineComplete(line, scheme)
+  );
+  const needsFixing = (lines ?? []).filter(
+    (line) => !skipped[line.lineNumber] && !isPastedLineComplete(line, scheme)
+  ).length;
+
+  const append = () => {
+    const idPrefix = Date.now().toString();
+    onAppend(
+      readyLines.map((line, index) =>
+        pastedLineToCourse(line, `${idPrefix}-${index}`)
+      )
+    );
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Paste Results</DialogTitle>
+          <DialogDescription>
+            Copy your result table from the portal and paste it below, one
+            course per line. Lines such as &quot;2022/2023 First Semester&quot;
+            set the semester for the courses under them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {lines === null ? (
+          <div className="space-y-2">
+            <Label htmlFor="pasted-results">Results</Label>
+            <Textarea
+              id="pasted-results"
+              rows={10}
+              placeholder={"CSC 301  3  A\nMTH201 - B (2 units)"}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="font-mono text-sm"
+            />
+            <p className="text-sm text-gray-600">
+              Lines without a session heading go into {defaultSession},{" "}
+              {semesterLabels[defaultSemester]}.
+            </p>
+          </div>
+        ) : lines.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No course lines found in the pasted text.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-[50vh] overflow-auto">
+            {lines.map((line) => {
+              const complete = isPastedLineComplete(line, scheme);
+              const isSkipped = !!skipped[line.lineNumber];
+              return (
+                <div
+                  key={line.lineNumber}
+                  className={`p-3 border rounded-lg space-y-2 ${
+                    isSkipped
+                      ? "opacity-50"
+                      : complete
+                        ? ""
+                        : "border-red-200 bg-red-50"
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`paste-line-${line.lineNumber}`}
+                      checked={!isSkipped}
+                      onCheckedChange={(checked) =>
+                        setSkipped({
+                          ...skipped,
+                          [line.lineNumber]: checked !== true,
+                        })
+                      }
+                      aria-label={`Include line ${line.lineNumber}`}
+                    />
+                    <code className="text-xs text-gray-600 flex-1 truncate">
+                      {line.lineNumber}: {line.text}
+                    </code>
+                    <Badge className={confidenceStyles[line.confidence]}>
+                      {line.confidence}
+                    </Badge>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      aria-label="Course code"
+                      placeholder="Code"
+                      value={line.code}
+                      onChange={(e) =>
+                        updateLine(line.lineNumber, {
+                          code: e.target.value.toUpperCase(),
+                        })
+                      }
+                    />
+                    <Input
+                      aria-label="Units"
+                      type="number"
+                      min={scheme.creditLimits.min}
+                      max={scheme.creditLimits.max}
+                      placeholder="Units"
+                      value={line.units ?? ""}
+                      onChange={(e) =>
+                        updateLine(line.lineNumber, {
+                          units:
+                            e.target.value === ""
+                              ? null
+                              : parseInt(e.target.value),
+                        })
+                      }
+                    />
+                    <Select
+                      value={line.grade}
+                      onValueChange={(grade) =>
+                        // A grade picked by hand replaces the pasted score
+                        updateLine(line.lineNumber, { grade, score: undefined })
+                      }
+                    >
+                      <SelectTrigger aria-label="Grade">
+                        <SelectValue placeholder="Grade" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scheme.grades.map((g) => (
+                          <SelectItem key={g.grade} value={g.grade}>
+                            {g.grade}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    {line.session}, {semesterLabels[line.semester]}
+                    {line.notes.length > 0 && ` · ${line.notes.join("; ")}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:items-center">
+          {lines !== null && lines.length > 0 && (
+            <p className="text-sm text-gray-600 sm:mr-auto">
+              {readyLines.length} ready
+              {needsFixing > 0 && `, ${needsFixing} need fixing or unticking`}
+            </p>
+          )}
+          {lines === null ? (
+            <Button onClick={parse} disabled={!text.trim()}>
+              Read Lines
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setLines(null)}>
+                Edit Text
+              </Button>
+              <Button
+                onClick={append}
+                disabled={readyLines.length === 0 || needsFixing > 0}
+              >
+                Add {readyLines.length} Courses
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
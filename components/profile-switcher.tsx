@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Pencil, Plus, Trash2, UserRound } from "lucide-react";
+import type { ProfileSummary } from "@/hooks/use-profiles";
+
+interface ProfileSwitcherProps {
+  profiles: ProfileSummary[];
+  activeProfile: ProfileSummary | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function ProfileSwitcher({
+  profiles,
+  activeProfile,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProfileSwitcherProps) {
+  const [nameDialog, setNameDialog] = useState<"create" | "rename" | null>(
+    null
+  );
+  const [profileName, setProfileName] = useState("");
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const openNameDialog = (mode: "create" | "rename") => {
+    setProfileName(mode === "rename" ? (activeProfile?.name ?? "") : "");
+    setNameDialog(mode);
+  };
+
+  const submitName = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    if (nameDialog === "create") {
+      onCreate(name);
+    } else if (nameDialog === "rename" && activeProfile) {
+      onRename(activeProfile.id, name);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col sm:flex-row sm:items-center gap-3 pt-6">
+        <div className="flex items-center gap-2 flex-1">
+          <UserRound className="h-5 w-5 text-gray-500 flex-shrink-0" />
+          <Select value={activeProfile?.id ?? ""} onValueChange={onSwitch}>
+            <SelectTrigger aria-label="Profile">
+              <SelectValue placeholder="Loading profiles..." />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openNameDialog("create")}
+            className="flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            New
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openNameDialog("rename")}
+            disabled={!activeProfile}
+            className="flex items-center gap-1"
+          >
+            <Pencil className="h-4 w-4" />
+            Rename
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => activeProfile && onDuplicate(activeProfile.id)}
+            disabled={!activeProfile}
+            className="flex items-center gap-1"
+          >
+            <Copy className="h-4 w-4" />
+            Duplicate
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsDeleteOpen(true)}
+            disabled={!activeProfile}
+            className="flex items-center gap-1 text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog
+        open={nameDialog !== null}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog === "create" ? "New Profile" : "Rename Profile"}
+            </DialogTitle>
+            <DialogDescription>
+              Each profile keeps its own courses and settings on this device.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitName();
+            }}
+            className="space-y-2"
+          >
+            <Label htmlFor="profile-name">Profile name</Label>
+            <Input
+              id="profile-name"
+              placeholder="e.g., Ada Okafor"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              autoFocus
+            />
+            <DialogFooter className="pt-4">
+              <Button type="submit" disabled={!profileName.trim()}>
+                {nameDialog === "create" ? "Create" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{activeProfile?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the profile and all of its courses from this device.
+              Download a backup first if you might need it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => activeProfile && onDelete(activeProfile.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
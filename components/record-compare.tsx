@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { GitCompare } from "lucide-react";
+import { isEncryptedFile } from "@/lib/encryption";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import { diffSavedData } from "@/lib/record-diff";
+import { formatGPA } from "@/lib/rounding";
+import { parseSavedData } from "@/lib/saved-data";
+import { semesterLabels } from "@/lib/sessions";
+import type { Course, SavedData } from "@/lib/types";
+
+interface ComparedRecord {
+  label: string;
+  data: SavedData;
+}
+
+type Side = "before" | "after";
+
+interface RecordCompareProps {
+  // This profile's current state, offered as either side of the comparison
+  currentData: SavedData;
+}
+
+const describeCourse = (course: Course) =>
+  `${course.code || "(no code)"} · ${course.grade || "no grade"}, ${
+    course.creditHours
+  } units · ${course.session} ${semesterLabels[course.semester]}`;
+
+export function RecordCompare({ currentData }: RecordCompareProps) {
+  const [records, setRecords] = useState<
+    Record<Side, ComparedRecord | "current" | null>
+  >({ before: null, after: "current" });
+  const [errors, setErrors] = useState<Record<Side, string | null>>({
+    before: null,
+    after: null,
+  });
+
+  const resolve = (side: Side): ComparedRecord | null => {
+    const record = records[side];
+    return record === "current"
+      ? { label: "Current state", data: currentData }
+      : record;
+  };
+
+  const setSide = (side: Side, record: ComparedRecord | "current" | null) =>
+    setRecords((current) => ({ ...current, [side]: record }));
+  const setError = (side: Side, error: string | null) =>
+    setErrors((current) => ({ ...current, [side]: error }));
+
+  const readFile = (side: Side, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = (e.target?.result as string) ?? "";
+      try {
+        let parsed: unknown = null;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          // Reported by parseSavedData below
+        }
+        if (isEncryptedFile(parsed)) {
+          throw new Error(
+            "Encrypted files cannot be compared; load the file first, then compare with the current state"
+          );
+        }
+        const data = parseSavedData(text, { allowEmpty: true });
+        setSide(side, { label: file.name, data });
+        setError(side, null);
+      } catch (error) {
+        setSide(side, null);
+        setError(
+          side,
+          error instanceof Error ? error.message : "The file could not be read"
+        );
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const before = resolve("before");
+  const after = resolve("after");
+  const diff = before && after ? diffSavedData(before.data, after.data) : null;
+  const delta = diff ? diff.after.gpa - diff.before.gpa : 0;
+
+  const renderSide = (side: Side, title: string) => {
+    const record = resolve(side);
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`compare-${side}`}>{title}</Label>
+        <Input
+          id={`compare-${side}`}
+          type="file"
+          accept=".json"
+          onChange={(event) => readFile(side, event)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setSide(side, "current");
+            setError(side, null);
+          }}
+          disabled={records[side] === "current"}
+        >
+          Use current state
+        </Button>
+        {record && (
+          <p className="text-sm text-gray-600">
+            {record.label} · {record.data.courses.length} courses, saved{" "}
+            {new Date(record.data.lastUpdated).toLocaleDateString()}
+          </p>
+        )}
+        {errors[side] && <p className="text-sm text-red-600">{errors[side]}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Compare Files
+        </CardTitle>
+        <CardDescription>
+          See which courses were added, removed or changed between two saved
+          records, and how the CGPA moved
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {renderSide("before", "Before")}
+          {renderSide("after", "After")}
+        </div>
+
+        {diff && before && after && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded-lg">
+              <span className="text-sm text-gray-600">CGPA</span>
+              <Badge variant="outline">
+                {formatGPA(diff.before.gpa, before.data.roundingPolicy)}
+              </Badge>
+              <span>→</span>
+              <Badge variant="outline">
+                {formatGPA(diff.after.gpa, after.data.roundingPolicy)}
+              </Badge>
+              <Badge
+                className={
+                  delta > 0
+                    ? "bg-green-100 text-green-800"
+                    : delta < 0
+                      ? "bg-red-100 text-red-800"
+                      : "bg-gray-100 text-gray-800"
+                }
+              >
+                {delta > 0 ? "+" : ""}
+                {delta.toFixed(after.data.roundingPolicy.decimals)}
+              </Badge>
+              <span className="text-sm text-gray-600">
+                · units {diff.before.totalCredits} → {diff.after.totalCredits}
+              </span>
+            </div>
+            {diff.schemeChanged && (
+              <p className="text-sm text-yellow-800">
+                The records use different schemes (
+                {getGradingScheme(before.data.schemeId).name} and{" "}
+                {getGradingScheme(after.data.schemeId).name}), so the CGPAs are
+                not directly comparable.
+              </p>
+            )}
+
+            {diff.added.length === 0 &&
+            diff.removed.length === 0 &&
+            diff.changed.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No course differences ({diff.unchangedCount} courses match).
+              </p>
+            ) : (
+              <div className="space-y-3 text-sm">
+                {diff.changed.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-1">
+                      Changed ({diff.changed.length})
+                    </h4>
+                    <ul className="space-y-1">
+                      {diff.changed.map((change) => (
+                        <li key={change.after.id}>
+                          <span className="font-medium">
+                            {change.after.code}
+                          </span>
+                          {change.gradeChanged &&
+                            ` · grade ${change.before.grade || "none"} → ${
+                              change.after.grade || "none"
+                            }`}
+                          {change.unitsChanged &&
+                            ` · units ${change.before.creditHours} → ${change.after.creditHours}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {diff.added.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-1 text-green-800">
+                      Added ({diff.added.length})
+                    </h4>
+                    <ul className="space-y-1">
+                      {diff.added.map((course) => (
+                        <li key={course.id}>{describeCourse(course)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {diff.removed.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold mb-1 text-red-800">
+                      Removed ({diff.removed.length})
+                    </h4>
+                    <ul className="space-y-1">
+                      {diff.removed.map((course) => (
+                        <li key={course.id}>{describeCourse(course)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <p className="text-gray-600">
+                  {diff.unchangedCount} courses are the same in both.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
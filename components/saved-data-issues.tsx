@@ -0,0 +1,23 @@
+"use client";
+
+import type { SavedDataIssue } from "@/lib/saved-data";
+
+interface SavedDataIssuesProps {
+  issues: SavedDataIssue[];
+}
+
+// Per-field list of the problems that stopped a saved record from loading
+export function SavedDataIssues({ issues }: SavedDataIssuesProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 text-sm text-red-800 max-h-48 overflow-auto">
+      {issues.map((issue, index) => (
+        <li key={index} className="flex flex-col sm:flex-row sm:gap-2">
+          <span className="font-medium">{issue.field}</span>
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
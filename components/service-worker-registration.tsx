@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect } from "react";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { SHELL_URL, isNewerBuild } from "@/lib/app-shell";
+
+// Registers public/sw.js so the app works offline, and offers a reload when a
+// newer version has been deployed
+export function ServiceWorkerRegistration() {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // A cached shell would hide changes while developing
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+
+    let hasPrompted = false;
+
+    // Compare the shell this tab runs with the latest one; fetching it through
+    // the service worker also caches the new version for offline use
+    const checkForUpdate = async () => {
+      if (hasPrompted || !navigator.onLine) return;
+      const cached = await caches.match(SHELL_URL);
+      if (!cached) return;
+      const currentHtml = await cached.text();
+      const response = await fetch(SHELL_URL, { cache: "no-store" });
+      if (!response.ok || !isNewerBuild(currentHtml, await response.text())) {
+        return;
+      }
+
+      hasPrompted = true;
+      toast({
+        title: "Update Available",
+        description: "A new version of the calculator is ready.",
+        duration: Infinity,
+        action: (
+          <ToastAction
+            altText="Reload to update"
+            onClick={() => window.location.reload()}
+          >
+            Reload
+          </ToastAction>
+        ),
+      });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== "visible") return;
+      checkForUpdate().catch((error) =>
+        console.error("Update check failed:", error)
+      );
+    };
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => checkForUpdate())
+      .catch((error) => console.error("Service worker error:", error));
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  return null;
+}
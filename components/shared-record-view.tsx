@@ -0,0 +1,117 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Eye, Upload, X } from "lucide-react";
+import { computeCGPA } from "@/lib/cgpa-engine";
+import { getDegreeClassification } from "@/lib/classification";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import { formatGPA } from "@/lib/rounding";
+import { semesterLabels } from "@/lib/sessions";
+import type { SavedData } from "@/lib/types";
+
+interface SharedRecordViewProps {
+  data: SavedData;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+// Read-only view of a record opened from a share link
+export function SharedRecordView({
+  data,
+  onImport,
+  onClose,
+}: SharedRecordViewProps) {
+  const scheme = getGradingScheme(data.schemeId);
+  const result = computeCGPA(data.courses, scheme, {
+    retakePolicy: data.retakePolicy,
+    rounding: data.roundingPolicy,
+  });
+  const classification = getDegreeClassification(scheme, result.overall.gpa);
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Shared Record (read-only)
+        </CardTitle>
+        <CardDescription>
+          Opened from a link, last updated{" "}
+          {new Date(data.lastUpdated).toLocaleDateString()}. Nothing here is
+          saved unless you import it.
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Badge className="text-lg px-3 py-1">
+            {formatGPA(result.overall.gpa, data.roundingPolicy)} /{" "}
+            {scheme.maxScale.toFixed(1)}
+          </Badge>
+          {classification.current && (
+            <Badge variant="secondary">{classification.current.name}</Badge>
+          )}
+          <span className="text-sm text-gray-600">
+            {scheme.name} · {result.overall.totalCredits} units ·{" "}
+            {data.courses.length} courses
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result.semesters.map((semester) => (
+          <div key={semester.key} className="space-y-1">
+            <h4 className="font-semibold text-sm">
+              {semester.session} {semesterLabels[semester.semester]} · GPA{" "}
+              {formatGPA(semester.summary.gpa, data.roundingPolicy)}
+            </h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Units</TableHead>
+                  <TableHead>Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {semester.courses.map((course) => (
+                  <TableRow key={course.id}>
+                    <TableCell>{course.code || "-"}</TableCell>
+                    <TableCell>{course.creditHours}</TableCell>
+                    <TableCell>{course.grade || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={onImport} className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Import into My Profile
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="flex items-center gap-2"
+          >
+            <X className="h-4 w-4" />
+            Close
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
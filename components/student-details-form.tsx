@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { IdCard } from "lucide-react";
+import {
+  getEntryYearWarning,
+  getMatricNumberWarning,
+  studentFieldLabels,
+} from "@/lib/student";
+import type { StudentDetails } from "@/lib/types";
+
+interface StudentDetailsFormProps {
+  student: StudentDetails;
+  onChange: (field: keyof StudentDetails, value: string) => void;
+}
+
+const placeholders: Record<keyof StudentDetails, string> = {
+  name: "e.g. Adaeze Okafor",
+  matricNumber: "e.g. 190401001",
+  faculty: "e.g. Engineering",
+  department: "e.g. Computer Engineering",
+  programme: "e.g. B.Sc. Computer Engineering",
+  entryYear: "e.g. 2019",
+};
+
+export function StudentDetailsForm({
+  student,
+  onChange,
+}: StudentDetailsFormProps) {
+  // Warnings only; unusual values are still saved and printed as entered
+  const warnings: Partial<Record<keyof StudentDetails, string | null>> = {
+    matricNumber: getMatricNumberWarning(
+      student.matricNumber,
+      student.entryYear
+    ),
+    entryYear: getEntryYearWarning(student.entryYear),
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <IdCard className="h-5 w-5" />
+          Student Details
+        </CardTitle>
+        <CardDescription>
+          Printed in the transcript header and saved with this profile
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(Object.keys(studentFieldLabels) as (keyof StudentDetails)[]).map(
+            (field) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`student-${field}`}>
+                  {studentFieldLabels[field]}
+                </Label>
+                <Input
+                  id={`student-${field}`}
+                  value={student[field]}
+                  placeholder={placeholders[field]}
+                  inputMode={
+                    field === "matricNumber" || field === "entryYear"
+                      ? "numeric"
+                      : undefined
+                  }
+                  onChange={(e) => onChange(field, e.target.value)}
+                  className={warnings[field] ? "border-yellow-400" : undefined}
+                />
+                {warnings[field] && (
+                  <p className="text-xs text-yellow-700">{warnings[field]}</p>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
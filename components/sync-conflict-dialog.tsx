@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { ConflictResolution, SyncConflict } from "@/hooks/use-profiles";
+import { diffSavedData } from "@/lib/record-diff";
+import { formatGPA } from "@/lib/rounding";
+import type { SavedData } from "@/lib/types";
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict | null;
+  // This tab's current data
+  mine: SavedData;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+}
+
+// Shown when another tab saved the open profile while this tab was editing
+// it; autosave stays paused until one of the choices is made
+export function SyncConflictDialog({
+  conflict,
+  mine,
+  onResolve,
+}: SyncConflictDialogProps) {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setIsWorking(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const theirs = conflict?.theirs.status === "ok" ? conflict.theirs.data : null;
+  const diff = theirs ? diffSavedData(theirs, mine) : null;
+
+  return (
+    <AlertDialog open={conflict !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            “{conflict?.profile.name}” changed in another tab
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Another tab saved this profile at{" "}
+            {conflict &&
+              new Date(conflict.profile.updatedAt).toLocaleTimeString()}{" "}
+            while you were editing it here. Choose which version to keep, or
+            keep both by saving this tab&apos;s version as a new profile.
+            Nothing is saved until you choose.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {diff && theirs ? (
+          <div className="space-y-1 text-sm">
+            <p>
+              Other tab: {theirs.courses.length} courses, CGPA{" "}
+              {formatGPA(diff.before.gpa, theirs.roundingPolicy)}
+            </p>
+            <p>
+              This tab: {mine.courses.length} courses, CGPA{" "}
+              {formatGPA(diff.after.gpa, mine.roundingPolicy)}
+            </p>
+            <p className="text-gray-600">
+              Compared with the other tab, this tab has {diff.added.length}{" "}
+              added, {diff.removed.length} removed and {diff.changed.length}{" "}
+              changed courses.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            The other tab&apos;s version could not be read, so keeping this
+            tab&apos;s version is recommended.
+          </p>
+        )}
+
+        <AlertDialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => resolve("both")}
+            disabled={isWorking}
+          >
+            Keep Both
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => resolve("theirs")}
+            disabled={isWorking}
+          >
+            Use Other Tab&apos;s
+          </Button>
+          <Button onClick={() => resolve("mine")} disabled={isWorking}>
+            Keep This Tab&apos;s
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
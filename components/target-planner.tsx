@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import type { GradingScheme } from "@/lib/grading-schemes";
+import { planTargetCGPA } from "@/lib/planner";
+import { type RoundingPolicy, formatGPA } from "@/lib/rounding";
+
+interface TargetPlannerProps {
+  scheme: GradingScheme;
+  totalPoints: number;
+  totalCredits: number;
+  rounding: RoundingPolicy;
+}
+
+export function TargetPlanner({
+  scheme,
+  totalPoints,
+  totalCredits,
+  rounding,
+}: TargetPlannerProps) {
+  const getDefaultTarget = () =>
+    (scheme.degreeClasses[0]?.min ?? scheme.maxScale).toFixed(2);
+
+  const [target, setTarget] = useState<string>(getDefaultTarget);
+  const [remainingCredits, setRemainingCredits] = useState<string>("24");
+
+  // A target on another scheme's scale means nothing here, so start over
+  useEffect(() => {
+    setTarget(getDefaultTarget());
+  }, [scheme.id]);
+
+  const targetValue = parseFloat(target);
+  const remainingValue = parseInt(remainingCredits);
+  const isValid =
+    !Number.isNaN(targetValue) &&
+    targetValue > 0 &&
+    targetValue <= scheme.maxScale &&
+    !Number.isNaN(remainingValue) &&
+    remainingValue >= 0;
+
+  const plan = isValid
+    ? planTargetCGPA(
+        scheme,
+        totalPoints,
+        totalCredits,
+        targetValue,
+        remainingValue
+      )
+    : null;
+
+  const currentCGPA = totalCredits > 0 ? totalPoints / totalCredits : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Target CGPA Planner</CardTitle>
+        <CardDescription>
+          See what you need in your remaining units to reach a target CGPA.
+          Current: {formatGPA(currentCGPA, rounding)} over {totalCredits} units.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="target-cgpa">Target CGPA</Label>
+            <Input
+              id="target-cgpa"
+              type="number"
+              min="0"
+              max={scheme.maxScale}
+              step="0.01"
+              inputMode="decimal"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {scheme.degreeClasses.map((cls) => (
+                <Button
+                  key={cls.name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTarget(cls.min.toFixed(2))}
+                >
+                  {cls.name} ({cls.min.toFixed(2)})
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="remaining-credits">Credit units remaining</Label>
+            <Input
+              id="remaining-credits"
+              type="number"
+              min="0"
+              step="1"
+              inputMode="numeric"
+              value={remainingCredits}
+              onChange={(e) => setRemainingCredits(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {!plan ? (
+          <p className="text-sm text-gray-600">
+            Enter a target between 0 and {scheme.maxScale.toFixed(2)} and the
+            units you have left.
+          </p>
+        ) : plan.alreadyMet ? (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-800">
+              You are on track: even with the lowest grade in every remaining
+              unit you would finish at or above {targetValue.toFixed(2)}.
+            </p>
+          </div>
+        ) : !plan.achievable ? (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">
+              {targetValue.toFixed(2)} is no longer reachable
+              {remainingValue > 0 &&
+                `: you would need an average of ${plan.requiredAverage.toFixed(
+                  2
+                )} but the scale tops out at ${scheme.maxScale.toFixed(2)}`}
+              . The best you can finish with is {plan.maxReachable.toFixed(2)}.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-600">
+                Average grade point needed:
+              </span>
+              <Badge variant="outline" className="text-lg px-4 py-1">
+                {plan.requiredAverage.toFixed(2)} / {scheme.maxScale.toFixed(1)}
+              </Badge>
+            </div>
+            {plan.mixes.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold">
+                  Grade mixes that get you there
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {plan.mixes.map((mix) => (
+                    <li
+                      key={mix.parts
+                        .map((part) => `${part.grade}${part.units}`)
+                        .join("-")}
+                      className="p-2 border rounded-lg"
+                    >
+                      {mix.parts
+                        .map((part) => `${part.units} units of ${part.grade}`)
+                        .join(" + ")}{" "}
+                      <span className="text-gray-500">
+                        (average {mix.average.toFixed(2)})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2 } from "lucide-react";
+import { type GradingScheme, getGradePoint } from "@/lib/grading-schemes";
+import { type RoundingPolicy, formatGPA } from "@/lib/rounding";
+import type { Course } from "@/lib/types";
+import { type WhatIfScenario, isScenarioEmpty } from "@/lib/what-if";
+
+// Radix Select items cannot use an empty value
+const ACTUAL_GRADE = "__actual";
+
+interface WhatIfSandboxProps {
+  courses: Course[];
+  scheme: GradingScheme;
+  scenario: WhatIfScenario;
+  realCGPA: number;
+  simulatedCGPA: number;
+  rounding: RoundingPolicy;
+  onScenarioChange: (scenario: WhatIfScenario) => void;
+  onAddHypotheticalCourse: () => void;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+export function WhatIfSandbox({
+  courses,
+  scheme,
+  scenario,
+  realCGPA,
+  simulatedCGPA,
+  rounding,
+  onScenarioChange,
+  onAddHypotheticalCourse,
+  onCommit,
+  onDiscard,
+}: WhatIfSandboxProps) {
+  // Both values are already rounded, so their difference only needs fixing
+  const delta = Number((simulatedCGPA - realCGPA).toFixed(rounding.decimals));
+  const gradeOptions = scheme.grades.map((g) => g.grade);
+
+  const setOverride = (id: string, grade: string) => {
+    const overrides = { ...scenario.overrides };
+    if (grade === ACTUAL_GRADE) {
+      delete overrides[id];
+    } else {
+      overrides[id] = grade;
+    }
+    onScenarioChange({ ...scenario, overrides });
+  };
+
+  const updateHypotheticalCourse = (
+    id: string,
+    field: "code" | "grade" | "creditHours",
+    value: string | number
+  ) => {
+    onScenarioChange({
+      ...scenario,
+      hypotheticalCourses: scenario.hypotheticalCourses.map((course) =>
+        course.id === id ? { ...course, [field]: value } : course
+      ),
+    });
+  };
+
+  const removeHypotheticalCourse = (id: string) => {
+    onScenarioChange({
+      ...scenario,
+      hypotheticalCourses: scenario.hypotheticalCourses.filter(
+        (course) => course.id !== id
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">What-if Simulation</CardTitle>
+          <CardDescription>
+            Try out grades without touching your real course list
+          </CardDescription>
+          <div className="flex flex-wrap items-center justify-center gap-4 pt-2">
+            <div>
+              <p className="text-sm text-gray-600">Real CGPA</p>
+              <Badge variant="outline" className="text-lg px-4 py-2">
+                {formatGPA(realCGPA, rounding)}
+              </Badge>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Simulated CGPA</p>
+              <Badge variant="outline" className="text-lg px-4 py-2">
+                {formatGPA(simulatedCGPA, rounding)}
+              </Badge>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Change</p>
+              <Badge
+                variant="outline"
+                className={`text-lg px-4 py-2 ${
+                  delta > 0
+                    ? "text-green-700 border-green-300"
+                    : delta < 0
+                      ? "text-red-700 border-red-300"
+                      : ""
+                }`}
+              >
+                {delta > 0 ? "+" : ""}
+                {delta.toFixed(rounding.decimals)}
+              </Badge>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap justify-center gap-2">
+          <Button
+            variant="outline"
+            onClick={onDiscard}
+            disabled={isScenarioEmpty(scenario)}
+          >
+            Discard Scenario
+          </Button>
+          <Button onClick={onCommit} disabled={isScenarioEmpty(scenario)}>
+            Apply to My Courses
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Grade Overrides</CardTitle>
+          <CardDescription>
+            Pick a different grade for any of your existing courses
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {courses.length === 0 ? (
+            <p className="text-center py-4 text-gray-500">
+              No courses added yet.
+            </p>
+          ) : (
+            courses.map((course) => (
+              <div
+                key={course.id}
+                className="flex items-center justify-between gap-4 p-2 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium">
+                    {course.code || "Untitled course"}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Actual: {course.grade || "-"} &middot; {course.creditHours}{" "}
+                    units
+                  </p>
+                </div>
+                <Select
+                  value={scenario.overrides[course.id] ?? ACTUAL_GRADE}
+                  onValueChange={(value) => setOverride(course.id, value)}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ACTUAL_GRADE}>No change</SelectItem>
+                    {gradeOptions.map((grade) => (
+                      <SelectItem key={grade} value={grade}>
+                        {grade} ({getGradePoint(scheme, grade)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Hypothetical Courses</CardTitle>
+          <CardDescription>
+            Courses you have not taken yet, with the grade you hope for
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {scenario.hypotheticalCourses.map((course) => (
+            <div
+              key={course.id}
+              className="grid grid-cols-1 sm:grid-cols-4 gap-4 p-4 border border-dashed rounded-lg"
+            >
+              <div className="space-y-2">
+                <Label htmlFor={`whatif-code-${course.id}`}>Course Code</Label>
+                <Input
+                  id={`whatif-code-${course.id}`}
+                  placeholder="e.g., CSC301"
+                  value={course.code}
+                  onChange={(e) =>
+                    updateHypotheticalCourse(
+                      course.id,
+                      "code",
+                      e.target.value.toUpperCase()
+                    )
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`whatif-grade-${course.id}`}>Grade</Label>
+                <Select
+                  value={course.grade}
+                  onValueChange={(value) =>
+                    updateHypotheticalCourse(course.id, "grade", value)
+                  }
+                >
+                  <SelectTrigger id={`whatif-grade-${course.id}`}>
+                    <SelectValue placeholder="Select grade" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gradeOptions.map((grade) => (
+                      <SelectItem key={grade} value={grade}>
+                        {grade} ({getGradePoint(scheme, grade)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`whatif-credits-${course.id}`}>
+                  Credit Hours
+                </Label>
+                <Input
+                  id={`whatif-credits-${course.id}`}
+                  type="number"
+                  min={scheme.creditLimits.min}
+                  max={scheme.creditLimits.max}
+                  step="1"
+                  inputMode="numeric"
+                  value={course.creditHours}
+                  onChange={(e) => {
+                    const value =
+                      parseInt(e.target.value) || scheme.creditLimits.min;
+                    updateHypotheticalCourse(
+                      course.id,
+                      "creditHours",
+                      Math.max(
+                        scheme.creditLimits.min,
+                        Math.min(scheme.creditLimits.max, value)
+                      )
+                    );
+                  }}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => removeHypotheticalCourse(course.id)}
+                  className="text-red-600 hover:text-red-700 w-full sm:w-auto"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="ml-2 sm:hidden">Remove Course</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={onAddHypotheticalCourse}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Hypothetical Course
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useCallback, useRef, useState } from "react";
+
+const HISTORY_LIMIT = 100;
+
+interface UseHistoryOptions<T> {
+  // The state as it is right now, read when undoing or redoing
+  getPresent: () => T;
+  // Replace the current state with a snapshot from the history
+  onRestore: (snapshot: T) => void;
+}
+
+export function useHistory<T>({ getPresent, onRestore }: UseHistoryOptions<T>) {
+  const pastRef = useRef<T[]>([]);
+  const futureRef = useRef<T[]>([]);
+  // Consecutive changes with the same key (e.g. typing in one field) are
+  // grouped into a single undo step
+  const lastKeyRef = useRef<string | null>(null);
+  const [status, setStatus] = useState({ canUndo: false, canRedo: false });
+
+  // Keep the latest callbacks so undo/redo stay stable, e.g. inside a toast
+  const getPresentRef = useRef(getPresent);
+  getPresentRef.current = getPresent;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const syncStatus = useCallback(() => {
+    setStatus({
+      canUndo: pastRef.current.length > 0,
+      canRedo: futureRef.current.length > 0,
+    });
+  }, []);
+
+  // Call before changing the state so the change can be undone
+  const record = useCallback(
+    (key?: string) => {
+      if (key !== undefined && key === lastKeyRef.current) return;
+      lastKeyRef.current = key ?? null;
+      pastRef.current = [...pastRef.current, getPresentRef.current()].slice(
+        -HISTORY_LIMIT
+      );
+      futureRef.current = [];
+      syncStatus();
+    },
+    [syncStatus]
+  );
+
+  const undo = useCallback(() => {
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (previous === undefined) return;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [getPresentRef.current(), ...futureRef.current];
+    lastKeyRef.current = null;
+    onRestoreRef.current(previous);
+    syncStatus();
+  }, [syncStatus]);
+
+  const redo = useCallback(() => {
+    const next = futureRef.current[0];
+    if (next === undefined) return;
+    futureRef.current = futureRef.current.slice(1);
+    pastRef.current = [...pastRef.current, getPresentRef.current()];
+    lastKeyRef.current = null;
+    onRestoreRef.current(next);
+    syncStatus();
+  }, [syncStatus]);
+
+  // Forget everything, e.g. when a different record is opened
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastKeyRef.current = null;
+    syncStatus();
+  }, [syncStatus]);
+
+  return { ...status, record, undo, redo, clear };
+}
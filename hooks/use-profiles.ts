@@ -0,0 +1,344 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type ProfileRecord,
+  type StoredState,
+  createProfileRecord,
+  deleteProfile as deleteProfileRecord,
+  getActiveProfileId,
+  getProfile,
+  listProfiles,
+  migrateLegacyStorage,
+  putProfile,
+  readProfileData,
+  saveProfileData,
+  setActiveProfileId as persistActiveProfileId,
+} from "@/lib/storage";
+import { type SyncMessage, type TabSync, openTabSync } from "@/lib/tab-sync";
+import type { SavedData } from "@/lib/types";
+
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// "other-tab" when the profile is reopened because another tab saved it
+export type ProfileOpenSource = "local" | "other-tab";
+
+export interface SyncConflict {
+  profile: ProfileSummary;
+  // The version another tab saved, which this tab's changes would overwrite
+  theirs: StoredState;
+}
+
+// Keep this tab's version, take the other tab's, or keep both as two profiles
+export type ConflictResolution = "mine" | "theirs" | "both";
+
+interface UseProfilesOptions {
+  // Called whenever a profile is opened, with its parsed (or unreadable) data
+  onOpen: (
+    state: StoredState,
+    profile: ProfileSummary,
+    source: ProfileOpenSource
+  ) => void;
+}
+
+// The stored version this tab's state is based on
+interface ProfileBase {
+  profileId: string;
+  updatedAt: string;
+  // Saved content without its timestamp, to skip saves that change nothing
+  content: string | null;
+}
+
+const toSummary = ({ id, name, createdAt, updatedAt }: ProfileRecord) => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+});
+
+const contentOf = (data: SavedData) =>
+  JSON.stringify({ ...data, lastUpdated: "" });
+
+export function useProfiles({ onOpen }: UseProfilesOptions) {
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SyncConflict | null>(null);
+
+  // Keep the latest callback without re-running effects
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+  // Strict mode runs mount effects twice; profiles must only be set up once
+  const initStartedRef = useRef(false);
+  // Read by the sync listener, which outlives any single render
+  const baseRef = useRef<ProfileBase | null>(null);
+  const isSavingRef = useRef(false);
+  const conflictRef = useRef(conflict);
+  conflictRef.current = conflict;
+  const syncRef = useRef<TabSync | null>(null);
+
+  const refreshProfiles = useCallback(async () => {
+    const records = await listProfiles();
+    setProfiles(records.map(toSummary));
+    return records;
+  }, []);
+
+  const openProfile = useCallback(
+    (record: ProfileRecord, source: ProfileOpenSource = "local") => {
+      const state = readProfileData(record);
+      baseRef.current = {
+        profileId: record.id,
+        updatedAt: record.updatedAt,
+        content: state.status === "ok" ? contentOf(state.data) : null,
+      };
+      setActiveProfileId(record.id);
+      setConflict(null);
+      onOpenRef.current(state, toSummary(record), source);
+      if (source === "local") {
+        persistActiveProfileId(record.id).catch((error) =>
+          console.error("Profile storage error:", error)
+        );
+      }
+    },
+    []
+  );
+
+  const notifyProfilesChanged = () =>
+    syncRef.current?.post({ type: "profiles-changed" });
+
+  // Follow profile changes made in other tabs
+  const handleSyncMessage = async (message: SyncMessage) => {
+    const records = await refreshProfiles();
+    const base = baseRef.current;
+    if (!base) return;
+
+    if (message.type === "profiles-changed") {
+      // The open profile was deleted elsewhere; the deleting tab makes sure
+      // at least one profile is left
+      if (records.length > 0 && !records.some((r) => r.id === base.profileId)) {
+        openProfile(records[0], "other-tab");
+      }
+      return;
+    }
+
+    if (
+      message.profileId !== base.profileId ||
+      message.updatedAt === base.updatedAt ||
+      // An unfinished save or an open conflict settles this tab's version
+      isSavingRef.current ||
+      conflictRef.current
+    ) {
+      return;
+    }
+    // Every edit is autosaved, so with no save pending this tab has nothing
+    // the other tab's version could overwrite
+    const record = records.find((r) => r.id === base.profileId);
+    if (record && record.updatedAt !== base.updatedAt) {
+      openProfile(record, "other-tab");
+    }
+  };
+  const handleSyncMessageRef = useRef(handleSyncMessage);
+  handleSyncMessageRef.current = handleSyncMessage;
+
+  useEffect(() => {
+    const sync = openTabSync((message) => {
+      handleSyncMessageRef
+        .current(message)
+        .catch((error) => console.error("Profile sync error:", error));
+    });
+    syncRef.current = sync;
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, []);
+
+  // Load profiles on mount, creating a first one if there are none
+  useEffect(() => {
+    if (initStartedRef.current) return;
+    initStartedRef.current = true;
+
+    (async () => {
+      await migrateLegacyStorage();
+      let records = await listProfiles();
+      if (records.length === 0) {
+        const first = createProfileRecord("My Profile", null);
+        await putProfile(first);
+        records = [first];
+      }
+
+      const storedActiveId = await getActiveProfileId();
+      const active =
+        records.find((record) => record.id === storedActiveId) ?? records[0];
+
+      setProfiles(records.map(toSummary));
+      openProfile(active);
+    })().catch((error) => console.error("Profile storage error:", error));
+  }, [openProfile]);
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ?? null;
+
+  // Record a successful save and tell the other tabs about it
+  const commitSave = (record: ProfileRecord, data: SavedData) => {
+    if (baseRef.current?.profileId === record.id) {
+      baseRef.current = {
+        profileId: record.id,
+        updatedAt: record.updatedAt,
+        content: contentOf(data),
+      };
+    }
+    setProfiles((current) =>
+      current.map((profile) =>
+        profile.id === record.id ? toSummary(record) : profile
+      )
+    );
+    syncRef.current?.post({
+      type: "profile-saved",
+      profileId: record.id,
+      updatedAt: record.updatedAt,
+    });
+  };
+
+  // Write the active profile's data; callers decide when (e.g. autosave).
+  // Resolves to false when nothing was written: no changes, or another tab
+  // saved first and the conflict is waiting to be resolved.
+  const saveActiveProfile = useCallback(
+    async (data: SavedData) => {
+      const base = baseRef.current;
+      if (!activeProfile || !base || conflictRef.current) return false;
+      if (base.profileId !== activeProfile.id) return false;
+      if (base.content === contentOf(data)) return false;
+
+      isSavingRef.current = true;
+      try {
+        const result = await saveProfileData(
+          activeProfile.id,
+          data,
+          base.updatedAt
+        );
+        if (result.status === "conflict") {
+          if (result.record) {
+            setConflict({
+              profile: toSummary(result.record),
+              theirs: readProfileData(result.record),
+            });
+          }
+          return false;
+        }
+        commitSave(result.record, data);
+        return true;
+      } finally {
+        isSavingRef.current = false;
+      }
+    },
+    [activeProfile]
+  );
+
+  // Settle a conflict with another tab; mine is this tab's current data
+  const resolveConflict = async (
+    resolution: ConflictResolution,
+    mine: SavedData
+  ) => {
+    if (!conflict) return;
+    const { id, name } = conflict.profile;
+
+    if (resolution === "mine") {
+      const result = await saveProfileData(id, mine, null);
+      setConflict(null);
+      if (result.status === "saved") commitSave(result.record, mine);
+      return;
+    }
+
+    if (resolution === "both") {
+      // The other tab's version stays in this profile
+      await createProfile(`${name} (this tab)`, mine);
+      return;
+    }
+
+    const record = await getProfile(id);
+    if (record) openProfile(record, "other-tab");
+  };
+
+  const switchProfile = async (id: string) => {
+    const record = await getProfile(id);
+    if (record) openProfile(record);
+  };
+
+  const createProfile = async (name: string, data: SavedData | null = null) => {
+    const record = createProfileRecord(name, data);
+    await putProfile(record);
+    await refreshProfiles();
+    notifyProfilesChanged();
+    openProfile(record);
+  };
+
+  const renameProfile = async (id: string, name: string) => {
+    const record = await getProfile(id);
+    if (!record) return;
+    await putProfile({ ...record, name });
+    await refreshProfiles();
+    notifyProfilesChanged();
+  };
+
+  const duplicateProfile = async (id: string) => {
+    const record = await getProfile(id);
+    if (!record) return;
+    await createProfile(`${record.name} (copy)`, record.data as SavedData);
+  };
+
+  const deleteProfile = async (id: string) => {
+    await deleteProfileRecord(id);
+    let records = await refreshProfiles();
+    if (records.length === 0) {
+      const fresh = createProfileRecord("My Profile", null);
+      await putProfile(fresh);
+      records = await refreshProfiles();
+    }
+    notifyProfilesChanged();
+    if (id === activeProfileId) {
+      openProfile(records[0]);
+    }
+  };
+
+  // Add profiles from a backup bundle without touching existing ones
+  const importProfiles = async (
+    imported: { name: string; data: SavedData }[]
+  ) => {
+    for (const profile of imported) {
+      await putProfile(createProfileRecord(profile.name, profile.data));
+    }
+    await refreshProfiles();
+    notifyProfilesChanged();
+  };
+
+  // Every profile with its readable data, for a "backup all" bundle
+  const getAllProfileData = async () => {
+    const records = await listProfiles();
+    const bundle: { name: string; data: SavedData }[] = [];
+    records.forEach((record) => {
+      const state = readProfileData(record);
+      if (state.status === "ok") {
+        bundle.push({ name: record.name, data: state.data });
+      }
+    });
+    return bundle;
+  };
+
+  return {
+    profiles,
+    activeProfile,
+    saveActiveProfile,
+    conflict,
+    resolveConflict,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    importProfiles,
+    getAllProfileData,
+  };
+}
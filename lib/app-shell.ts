@@ -0,0 +1,15 @@
+// Page the service worker serves offline; public/sw.js caches it as "/"
+export const SHELL_URL = "/";
+
+// Build assets (content-hashed scripts, styles and fonts) a page links to.
+// public/sw.js uses the same pattern to cache them.
+export function getBuildAssetUrls(html: string): string[] {
+  return Array.from(new Set(html.match(/\/_next\/static\/[^"'\\\s)]+/g) ?? []));
+}
+
+// A new deployment renames the hashed assets, so the running shell is out of
+// date once the latest one no longer links to everything it did
+export function isNewerBuild(currentHtml: string, latestHtml: string): boolean {
+  const latest = new Set(getBuildAssetUrls(latestHtml));
+  return getBuildAssetUrls(currentHtml).some((url) => !latest.has(url));
+}
@@ -0,0 +1,69 @@
+import type { GradingScheme } from "@/lib/grading-schemes";
+
+export interface AssessmentPart {
+  id: string;
+  name: string;
+  // Marks the part is scored out of; all parts add up to the course score
+  weight: number;
+  score?: number;
+}
+
+export interface AssessmentTotal {
+  score: number;
+  recordedWeight: number;
+  totalWeight: number;
+  complete: boolean;
+}
+
+export interface RequiredScore {
+  grade: string;
+  required: number;
+  remainingWeight: number;
+  secured: boolean;
+  achievable: boolean;
+}
+
+export function createDefaultAssessmentParts(): AssessmentPart[] {
+  const now = Date.now();
+  return [
+    { id: `${now}-ca`, name: "CA", weight: 30 },
+    { id: `${now}-exam`, name: "Exam", weight: 70 },
+  ];
+}
+
+export function getAssessmentTotal(parts: AssessmentPart[]): AssessmentTotal {
+  return parts.reduce<AssessmentTotal>(
+    (total, part) => {
+      const recorded = part.score !== undefined;
+      return {
+        score: total.score + (part.score ?? 0),
+        recordedWeight: total.recordedWeight + (recorded ? part.weight : 0),
+        totalWeight: total.totalWeight + part.weight,
+        complete: total.complete && recorded,
+      };
+    },
+    { score: 0, recordedWeight: 0, totalWeight: 0, complete: true }
+  );
+}
+
+// Marks still needed across the unrecorded parts to reach the target grade
+export function getRequiredScore(
+  scheme: GradingScheme,
+  parts: AssessmentPart[],
+  targetGrade: string
+): RequiredScore | null {
+  const band = scheme.scoreBands.find((b) => b.grade === targetGrade);
+  if (!band) return null;
+
+  const total = getAssessmentTotal(parts);
+  const remainingWeight = total.totalWeight - total.recordedWeight;
+  const required = Math.max(0, band.min - total.score);
+
+  return {
+    grade: targetGrade,
+    required,
+    remainingWeight,
+    secured: required === 0,
+    achievable: required <= remainingWeight,
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { computeCGPAResponse, parseCGPARequest } from "@/lib/cgpa-api";
+
+const parse = (body: unknown) => {
+  const result = parseCGPARequest(body);
+  if (!result.success) throw new Error(JSON.stringify(result.issues));
+  return result.request;
+};
+
+describe("parseCGPARequest", () => {
+  it("fills in defaults", () => {
+    const request = parse({
+      courses: [{ code: "CSC101", grade: "A", creditHours: 3 }],
+    });
+    expect(request.schemeId).toBe("unilag-5.0");
+    expect(request.courses[0]).toMatchObject({
+      session: "",
+      semester: "first",
+    });
+  });
+
+  it("reports invalid fields by course", () => {
+    const result = parseCGPARequest({
+      courses: [{ code: "CSC101", grade: "Z", creditHours: 3 }],
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0].message).toContain('Grade "Z"');
+  });
+
+  it("rejects repeated course ids", () => {
+    const result = parseCGPARequest({
+      courses: [
+        { id: "1", code: "CSC101", grade: "A", creditHours: 3 },
+        { id: "1", code: "MTH101", grade: "F", creditHours: 3 },
+      ],
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((issue) => issue.message)).toEqual([
+      'Course id "1" is used more than once',
+    ]);
+  });
+
+  it("rejects scheme ids that are not schemes of their own", () => {
+    ["toString", "constructor", "__proto__"].forEach((schemeId) => {
+      const result = parseCGPARequest({
+        schemeId,
+        courses: [{ code: "A", grade: "A", creditHours: 3 }],
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.issues[0].message).toBe("Unknown grading scheme");
+    });
+  });
+
+  it("rejects a body that is not an object", () => {
+    expect(parseCGPARequest([]).success).toBe(false);
+  });
+});
+
+describe("computeCGPAResponse", () => {
+  it("counts courses without ids alongside ones that have them", () => {
+    const response = computeCGPAResponse(
+      parse({
+        courses: [
+          { id: "2", code: "CSC101", grade: "A", creditHours: 3 },
+          { code: "MTH101", grade: "F", creditHours: 3 },
+        ],
+      })
+    );
+    expect(response.gpa).toBe(2.5);
+    expect(response.qualityPoints).toBe(15);
+    expect(response.courseCount).toBe(2);
+  });
+
+  it("applies the retake policy through ids", () => {
+    const response = computeCGPAResponse(
+      parse({
+        courses: [
+          { id: "a", code: "MTH101", grade: "F", creditHours: 3 },
+          {
+            code: "MTH101",
+            grade: "B",
+            creditHours: 3,
+            session: "2023/2024",
+            retakeOf: "a",
+          },
+        ],
+        retakePolicy: { mode: "replace", capGrade: "C" },
+      })
+    );
+    expect(response.gpa).toBe(4);
+    expect(response.semesters).toHaveLength(2);
+  });
+
+  it("classifies and converts the CGPA", () => {
+    const response = computeCGPAResponse(
+      parse({ courses: [{ code: "CSC101", grade: "A", creditHours: 3 }] })
+    );
+    expect(response.classification.current).toBe("First Class");
+    expect(response.conversions.map((c) => [c.schemeId, c.gpa])).toEqual([
+      ["standard-4.0", 4],
+    ]);
+  });
+});
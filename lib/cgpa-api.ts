@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { type GradeSummary, computeCGPA } from "@/lib/cgpa-engine";
+import {
+  type ClassBoundary,
+  getDegreeClassification,
+} from "@/lib/classification";
+import {
+  DEFAULT_SCHEME_ID,
+  EQUIVALENT_SCHEME_ID,
+  getGradingScheme,
+} from "@/lib/grading-schemes";
+import { DEFAULT_RETAKE_POLICY } from "@/lib/retakes";
+import {
+  type SavedDataIssue,
+  courseSchema,
+  describeIssuePath,
+  refineCourseGrades,
+  retakePolicySchema,
+  roundingPolicySchema,
+  schemeIdSchema,
+} from "@/lib/saved-data";
+import type { Course } from "@/lib/types";
+
+// Body of POST /api/cgpa. Only code, grade and units are needed per course;
+// session and semester matter for the semester breakdown, id for retakes.
+const cgpaRequestSchema = z
+  .object({
+    schemeId: schemeIdSchema.default(DEFAULT_SCHEME_ID),
+    courses: z.array(
+      courseSchema.extend({
+        id: z.string().min(1).optional(),
+        code: z.string().trim().min(1, "Course code is missing"),
+        session: z.string().default(""),
+        semester: z.enum(["first", "second"]).default("first"),
+      }),
+      { required_error: "Courses list not found" }
+    ),
+    retakePolicy: retakePolicySchema.optional(),
+    roundingPolicy: roundingPolicySchema.optional(),
+    // Schemes to convert the CGPA to; defaults to the 4.0 scale
+    conversionSchemeIds: z.array(schemeIdSchema).optional(),
+  })
+  .superRefine((data, ctx) => {
+    refineCourseGrades(data.courses, data.schemeId, ctx);
+    // Retakes refer to earlier attempts by id, so ids must be unique
+    const seenIds = new Set<string>();
+    data.courses.forEach((course, index) => {
+      if (course.id === undefined) return;
+      if (seenIds.has(course.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["courses", index, "id"],
+          message: `Course id "${course.id}" is used more than once`,
+        });
+      }
+      seenIds.add(course.id);
+    });
+  });
+
+export type CGPARequest = z.infer<typeof cgpaRequestSchema>;
+
+export type CGPARequestResult =
+  | { success: true; request: CGPARequest }
+  | { success: false; issues: SavedDataIssue[] };
+
+export interface CGPASummaryResponse {
+  gpa: number;
+  unroundedGPA: number;
+  totalUnits: number;
+  qualityPoints: number;
+  courseCount: number;
+}
+
+export interface CGPAResponse extends CGPASummaryResponse {
+  scheme: { id: string; name: string; maxScale: number };
+  classification: {
+    current: string | null;
+    nextUp: { name: string; distance: number } | null;
+    nextDown: { name: string; distance: number } | null;
+  };
+  conversions: (CGPASummaryResponse & {
+    schemeId: string;
+    name: string;
+    maxScale: number;
+  })[];
+  semesters: (CGPASummaryResponse & {
+    session: string;
+    semester: Course["semester"];
+    cumulative: CGPASummaryResponse;
+  })[];
+}
+
+export function parseCGPARequest(body: unknown): CGPARequestResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return {
+      success: false,
+      issues: [{ field: "Request", message: "Expected a JSON object" }],
+    };
+  }
+
+  const result = cgpaRequestSchema.safeParse(body);
+  if (result.success) return { success: true, request: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      field: describeIssuePath(
+        issue.path,
+        body as Record<string, unknown>,
+        "Request"
+      ),
+      message: issue.message,
+    })),
+  };
+}
+
+const toSummaryResponse = (summary: GradeSummary): CGPASummaryResponse => ({
+  gpa: summary.gpa,
+  unroundedGPA: summary.unroundedGPA,
+  totalUnits: summary.totalCredits,
+  qualityPoints: summary.qualityPoints,
+  courseCount: summary.courseCount,
+});
+
+const toBoundaryResponse = (boundary: ClassBoundary | null) =>
+  boundary && {
+    name: boundary.degreeClass.name,
+    // Drops float noise such as 0.2999999999999998
+    distance: Number(boundary.distance.toFixed(6)),
+  };
+
+// The same calculation the calculator runs, shaped for API clients
+export function computeCGPAResponse(request: CGPARequest): CGPAResponse {
+  const scheme = getGradingScheme(request.schemeId);
+  // Courses sent without an id get one that no other course uses
+  const takenIds = new Set(request.courses.map((course) => course.id));
+  let nextId = 0;
+  const generateId = () => {
+    nextId++;
+    while (takenIds.has(String(nextId))) nextId++;
+    return String(nextId);
+  };
+  const courses: Course[] = request.courses.map((course) => ({
+    ...course,
+    id: course.id ?? generateId(),
+  }));
+  const result = computeCGPA(courses, scheme, {
+    retakePolicy: request.retakePolicy ?? DEFAULT_RETAKE_POLICY,
+    rounding: request.roundingPolicy ?? scheme.rounding,
+    conversionSchemeIds: request.conversionSchemeIds ?? [EQUIVALENT_SCHEME_ID],
+  });
+  const classification = getDegreeClassification(scheme, result.overall.gpa);
+
+  return {
+    scheme: { id: scheme.id, name: scheme.name, maxScale: scheme.maxScale },
+    ...toSummaryResponse(result.overall),
+    classification: {
+      current: classification.current?.name ?? null,
+      nextUp: toBoundaryResponse(classification.nextUp),
+      nextDown: toBoundaryResponse(classification.nextDown),
+    },
+    conversions: result.conversions.map((conversion) => ({
+      schemeId: conversion.schemeId,
+      name: conversion.name,
+      maxScale: conversion.maxScale,
+      ...toSummaryResponse(conversion.summary),
+    })),
+    semesters: result.semesters.map((semester) => ({
+      session: semester.session,
+      semester: semester.semester,
+      ...toSummaryResponse(semester.summary),
+      cumulative: toSummaryResponse(semester.cumulative),
+    })),
+  };
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeCGPA,
+  groupCoursesBySemester,
+  summarizeCourses,
+} from "@/lib/cgpa-engine";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import { createCourse } from "@/lib/test-fixtures";
+
+const unilag = getGradingScheme("unilag-5.0");
+
+describe("summarizeCourses", () => {
+  it("weights grade points by units", () => {
+    const summary = summarizeCourses(
+      [
+        createCourse({ code: "CSC101", grade: "A", creditHours: 3 }),
+        createCourse({ code: "MTH101", grade: "C", creditHours: 2 }),
+      ],
+      unilag
+    );
+    expect(summary.qualityPoints).toBe(21);
+    expect(summary.totalCredits).toBe(5);
+    expect(summary.unroundedGPA).toBeCloseTo(4.2);
+    expect(summary.gpa).toBe(4.2);
+    expect(summary.courseCount).toBe(2);
+    expect(summary.gradeCounts).toEqual({ A: 1, C: 1 });
+  });
+
+  it("skips courses without a code, grade or units", () => {
+    const summary = summarizeCourses(
+      [
+        createCourse({ grade: "B" }),
+        createCourse({ code: " " }),
+        createCourse({ grade: "" }),
+        createCourse({ creditHours: 0 }),
+      ],
+      unilag
+    );
+    expect(summary.courseCount).toBe(1);
+    expect(summary.gpa).toBe(4);
+  });
+
+  it("returns zero when nothing counts", () => {
+    expect(summarizeCourses([], unilag).gpa).toBe(0);
+  });
+
+  it("rounds with the given policy and keeps the unrounded value", () => {
+    // 34 points over 9 units = 3.7777...
+    const courses = [
+      createCourse({ grade: "A", creditHours: 4 }),
+      createCourse({ code: "MTH101", grade: "D", creditHours: 3 }),
+      createCourse({ code: "PHY101", grade: "B", creditHours: 2 }),
+    ];
+    const summary = summarizeCourses(courses, unilag, {
+      method: "truncate",
+      decimals: 3,
+    });
+    expect(summary.gpa).toBe(3.777);
+    expect(summary.unroundedGPA).toBeCloseTo(34 / 9, 10);
+  });
+});
+
+describe("groupCoursesBySemester", () => {
+  it("orders semesters chronologically", () => {
+    const groups = groupCoursesBySemester([
+      createCourse({ session: "2023/2024", semester: "first" }),
+      createCourse({ session: "2022/2023", semester: "second" }),
+      createCourse({ session: "2022/2023", semester: "first" }),
+    ]);
+    expect(groups.map((group) => group.key)).toEqual([
+      "2022/2023|first",
+      "2022/2023|second",
+      "2023/2024|first",
+    ]);
+  });
+
+  it("groups by the session the caller gives", () => {
+    const typing = createCourse({ session: "2023/20" });
+    const groups = groupCoursesBySemester(
+      [createCourse({ session: "2022/2023" }), typing],
+      (c) => (c.id === typing.id ? "2022/2023" : c.session)
+    );
+    expect(groups).toHaveLength(1);
+    expect(groups[0].courses[1]).toBe(typing);
+  });
+});
+
+describe("computeCGPA", () => {
+  const first = [
+    createCourse({ code: "CSC101", grade: "A", creditHours: 3 }),
+    createCourse({ code: "MTH101", grade: "F", creditHours: 3 }),
+  ];
+  const second = [
+    createCourse({
+      code: "MTH101",
+      grade: "B",
+      creditHours: 3,
+      session: "2023/2024",
+      retakeOf: first[1].id,
+    }),
+  ];
+  const courses = [...second, ...first];
+
+  it("gives semester GPAs and a running CGPA", () => {
+    const result = computeCGPA(courses, unilag);
+    expect(
+      result.semesters.map((semester) => [
+        semester.key,
+        semester.summary.gpa,
+        semester.cumulative.gpa,
+      ])
+    ).toEqual([
+      ["2022/2023|first", 2.5, 2.5],
+      ["2023/2024|first", 4, 3],
+    ]);
+    expect(result.overall.gpa).toBe(3);
+    expect(result.overall.totalCredits).toBe(9);
+  });
+
+  it("applies the retake policy", () => {
+    const replaced = computeCGPA(courses, unilag, {
+      retakePolicy: { mode: "replace", capGrade: "C" },
+    });
+    expect(replaced.overall.gpa).toBe(4.5);
+    expect(replaced.semesters[0].summary.gpa).toBe(5);
+
+    const capped = computeCGPA(courses, unilag, {
+      retakePolicy: { mode: "cap", capGrade: "C" },
+    });
+    expect(capped.overall.gpa).toBe(4);
+    expect(capped.countedCourses.map((c) => c.grade)).toEqual(["A", "C"]);
+  });
+
+  it("keeps every entered course in its semester, counted or not", () => {
+    const result = computeCGPA(courses, unilag, {
+      retakePolicy: { mode: "replace", capGrade: "C" },
+    });
+    expect(result.semesters[0].courses).toEqual(first);
+    expect(result.overall.courseCount).toBe(2);
+  });
+
+  it("converts the counted courses to the 4.0 scale", () => {
+    const result = computeCGPA(courses, unilag);
+    expect(result.conversions).toHaveLength(1);
+    expect(result.conversions[0].schemeId).toBe("standard-4.0");
+    // A=4, F=0, B=3 over 9 units
+    expect(result.conversions[0].summary.gpa).toBe(2.33);
+  });
+
+  it("skips conversion to the scheme in use", () => {
+    const result = computeCGPA(courses, getGradingScheme("standard-4.0"));
+    expect(result.conversions).toEqual([]);
+  });
+
+  it("counts courses that share an id separately", () => {
+    const result = computeCGPA(
+      [
+        createCourse({ id: "same", code: "CSC101", grade: "A" }),
+        createCourse({ id: "same", code: "MTH101", grade: "F" }),
+      ],
+      unilag
+    );
+    expect(result.overall.gpa).toBe(2.5);
+    expect(result.overall.courseCount).toBe(2);
+  });
+
+  it("matches summarizeCourses for the counted courses", () => {
+    const rounding = { method: "half-even", decimals: 3 } as const;
+    const result = computeCGPA(courses, unilag, { rounding });
+    expect(result.overall).toEqual(
+      summarizeCourses(result.countedCourses, unilag, rounding)
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  EQUIVALENT_SCHEME_ID,
+  type GradingScheme,
+  getGradePoint,
+  getGradingScheme,
+} from "@/lib/grading-schemes";
+import {
+  DEFAULT_RETAKE_POLICY,
+  type RetakePolicy,
+  mapEffectiveCourses,
+} from "@/lib/retakes";
+import { type RoundingPolicy, applyRounding } from "@/lib/rounding";
+import { compareSemesters } from "@/lib/sessions";
+import type { Course, Semester } from "@/lib/types";
+
+export interface GradeSummary {
+  gpa: number;
+  unroundedGPA: number;
+  totalCredits: number;
+  qualityPoints: number;
+  courseCount: number;
+  // Number of counted courses per letter grade
+  gradeCounts: Record<string, number>;
+}
+
+export interface SemesterResult {
+  key: string;
+  session: string;
+  semester: Semester;
+  // Every course entered for the semester, counted or not
+  courses: Course[];
+  summary: GradeSummary;
+  // Running totals up to and including this semester
+  cumulative: GradeSummary;
+}
+
+export interface GradeConversion {
+  schemeId: string;
+  name: string;
+  maxScale: number;
+  summary: GradeSummary;
+}
+
+export interface CGPAResult {
+  overall: GradeSummary;
+  semesters: SemesterResult[];
+  conversions: GradeConversion[];
+  // Courses that count towards the CGPA, as counted, in semester order
+  countedCourses: Course[];
+}
+
+export interface CGPAOptions {
+  retakePolicy?: RetakePolicy;
+  // Defaults to the scheme's rounding policy
+  rounding?: RoundingPolicy;
+  // Schemes to convert the result to; defaults to the equivalent 4.0 scale
+  conversionSchemeIds?: string[];
+}
+
+export function isCountableCourse(course: Course): boolean {
+  return (
+    course.code.trim() !== "" && course.grade !== "" && course.creditHours > 0
+  );
+}
+
+export function getQualityPoints(
+  course: Course,
+  scheme: GradingScheme
+): number {
+  return getGradePoint(scheme, course.grade) * course.creditHours;
+}
+
+export function getSemesterKey(session: string, semester: Semester): string {
+  return `${session.trim()}|${semester}`;
+}
+
+// Group courses by session and semester, in chronological order. getSession
+// lets the editor keep a course in place while its session is being typed.
+export function groupCoursesBySemester(
+  courses: Course[],
+  getSession: (course: Course) => string = (course) => course.session
+) {
+  const groups = new Map<
+    string,
+    { session: string; semester: Semester; courses: Course[] }
+  >();
+
+  courses.forEach((course) => {
+    const session = getSession(course);
+    const key = getSemesterKey(session, course.semester);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        session: session.trim(),
+        semester: course.semester,
+        courses: [],
+      });
+    }
+    groups.get(key)!.courses.push(course);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...group }))
+    .sort(compareSemesters);
+}
+
+// Totals for courses that are already known to count
+function summarizeCountedCourses(
+  courses: Course[],
+  scheme: GradingScheme,
+  rounding: RoundingPolicy
+): GradeSummary {
+  let qualityPoints = 0;
+  let totalCredits = 0;
+  const gradeCounts: Record<string, number> = {};
+
+  courses.forEach((course) => {
+    qualityPoints += getQualityPoints(course, scheme);
+    totalCredits += course.creditHours;
+    gradeCounts[course.grade] = (gradeCounts[course.grade] ?? 0) + 1;
+  });
+
+  const unroundedGPA = totalCredits > 0 ? qualityPoints / totalCredits : 0;
+
+  return {
+    gpa: applyRounding(unroundedGPA, rounding),
+    unroundedGPA,
+    totalCredits,
+    qualityPoints,
+    courseCount: courses.length,
+    gradeCounts,
+  };
+}
+
+// GPA for a flat list of courses, skipping incomplete ones
+export function summarizeCourses(
+  courses: Course[],
+  scheme: GradingScheme,
+  rounding: RoundingPolicy = scheme.rounding
+): GradeSummary {
+  return summarizeCountedCourses(
+    courses.filter(isCountableCourse),
+    scheme,
+    rounding
+  );
+}
+
+// Semester GPAs, running CGPA after each semester, overall CGPA and conversions
+export function computeCGPA(
+  courses: Course[],
+  scheme: GradingScheme,
+  options: CGPAOptions = {}
+): CGPAResult {
+  const retakePolicy = options.retakePolicy ?? DEFAULT_RETAKE_POLICY;
+  const rounding = options.rounding ?? scheme.rounding;
+  const conversionSchemeIds = (
+    options.conversionSchemeIds ?? [EQUIVALENT_SCHEME_ID]
+  ).filter((id) => id !== scheme.id);
+
+  // Courses as they count under the retake policy, looked up by the entered
+  // course itself so that repeated ids cannot stand in for each other
+  const effectiveList = mapEffectiveCourses(courses, retakePolicy, scheme);
+  const effectiveCourses = new Map(
+    courses.map((course, index) => [course, effectiveList[index]])
+  );
+
+  const countedCourses: Course[] = [];
+  const semesters = groupCoursesBySemester(courses).map((group) => {
+    const semesterCourses = group.courses
+      .map((course) => effectiveCourses.get(course))
+      .filter(
+        (course): course is Course =>
+          course !== undefined && course !== null && isCountableCourse(course)
+      );
+    countedCourses.push(...semesterCourses);
+
+    return {
+      ...group,
+      summary: summarizeCountedCourses(semesterCourses, scheme, rounding),
+      cumulative: summarizeCountedCourses(countedCourses, scheme, rounding),
+    };
+  });
+
+  return {
+    overall: summarizeCountedCourses(countedCourses, scheme, rounding),
+    semesters,
+    conversions: conversionSchemeIds.map((id) => {
+      const target = getGradingScheme(id);
+      return {
+        schemeId: target.id,
+        name: target.name,
+        maxScale: target.maxScale,
+        summary: summarizeCountedCourses(countedCourses, target, rounding),
+      };
+    }),
+    countedCourses,
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { getDegreeClassification } from "@/lib/classification";
+import { getGradingScheme } from "@/lib/grading-schemes";
+
+const unilag = getGradingScheme("unilag-5.0");
+const standard = getGradingScheme("standard-4.0");
+
+describe("getDegreeClassification", () => {
+  it("places a CGPA in its class with distances to both neighbours", () => {
+    const result = getDegreeClassification(unilag, 3.8);
+    expect(result.current?.name).toBe("Second Class Upper");
+    expect(result.nextUp?.degreeClass.name).toBe("First Class");
+    expect(result.nextUp?.distance).toBeCloseTo(0.7);
+    expect(result.nextDown?.degreeClass.name).toBe("Second Class Lower");
+    expect(result.nextDown?.distance).toBeCloseTo(0.31);
+  });
+
+  it("starts a class exactly at its minimum", () => {
+    expect(getDegreeClassification(unilag, 4.5).current?.name).toBe(
+      "First Class"
+    );
+    expect(getDegreeClassification(standard, 3.5).current?.name).toBe(
+      "First Class"
+    );
+  });
+
+  it("keeps values between printed bands in the lower class", () => {
+    expect(getDegreeClassification(unilag, 4.495).current?.name).toBe(
+      "Second Class Upper"
+    );
+  });
+
+  it("has nothing above the top class", () => {
+    const result = getDegreeClassification(unilag, 5);
+    expect(result.current?.name).toBe("First Class");
+    expect(result.nextUp).toBeNull();
+  });
+
+  it("leaves a CGPA below every class unclassified", () => {
+    const result = getDegreeClassification(unilag, 0.8);
+    expect(result.current).toBeNull();
+    expect(result.nextUp?.degreeClass.name).toBe("Pass");
+    expect(result.nextUp?.distance).toBeCloseTo(0.2);
+    expect(result.nextDown).toBeNull();
+  });
+
+  it("uses the scheme's own boundaries", () => {
+    expect(getDegreeClassification(standard, 3.2).current?.name).toBe(
+      "Second Class Upper"
+    );
+    expect(getDegreeClassification(standard, 0.5).current).toBeNull();
+  });
+});
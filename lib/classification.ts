@@ -0,0 +1,39 @@
+import type { DegreeClass, GradingScheme } from "@/lib/grading-schemes";
+
+export interface ClassBoundary {
+  degreeClass: DegreeClass;
+  // How far the CGPA is from this class, always positive
+  distance: number;
+}
+
+export interface DegreeClassification {
+  current: DegreeClass | null;
+  nextUp: ClassBoundary | null;
+  nextDown: ClassBoundary | null;
+}
+
+// Classifies an already rounded CGPA; a class starts at its minimum and runs
+// up to the next class's minimum, so values between printed bands (e.g. 4.495
+// at three decimals) stay in the lower class
+export function getDegreeClassification(
+  scheme: GradingScheme,
+  cgpa: number
+): DegreeClassification {
+  const classes = scheme.degreeClasses;
+  const index = classes.findIndex((cls) => cgpa >= cls.min);
+  const current = index === -1 ? null : classes[index];
+
+  const upClass =
+    index === -1 ? classes[classes.length - 1] : classes[index - 1];
+  const downClass = index === -1 ? undefined : classes[index + 1];
+
+  return {
+    current,
+    nextUp: upClass
+      ? { degreeClass: upClass, distance: upClass.min - cgpa }
+      : null,
+    nextDown: downClass
+      ? { degreeClass: downClass, distance: cgpa - downClass.max }
+      : null,
+  };
+}
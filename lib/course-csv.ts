@@ -0,0 +1,204 @@
+import { getQualityPoints, isCountableCourse } from "@/lib/cgpa-engine";
+import {
+  type GradingScheme,
+  getGradeForScore,
+  getGradePoint,
+} from "@/lib/grading-schemes";
+import { toCSV } from "@/lib/csv";
+import { semesterLabels } from "@/lib/sessions";
+import type { Course, Semester } from "@/lib/types";
+
+export type CourseCsvField =
+  "code" | "title" | "units" | "grade" | "score" | "session" | "semester";
+
+export const courseCsvFieldLabels: Record<CourseCsvField, string> = {
+  code: "Course code",
+  title: "Course title",
+  units: "Units",
+  grade: "Grade",
+  score: "Score",
+  session: "Session",
+  semester: "Semester",
+};
+
+// Column index for each field, or null when the file has no such column
+export type CourseCsvMapping = Record<CourseCsvField, number | null>;
+
+export interface CourseCsvRow {
+  // 1-based line in the file, for error messages
+  rowNumber: number;
+  cells: string[];
+  course: Course | null;
+  errors: string[];
+}
+
+// Header names recognised when guessing the mapping, lower case
+const headerAliases: Record<CourseCsvField, string[]> = {
+  code: ["code", "course code", "course", "course id"],
+  title: ["title", "course title", "name", "course name", "description"],
+  units: ["units", "unit", "credit", "credits", "credit units", "credit hours"],
+  grade: ["grade", "letter grade"],
+  score: ["score", "mark", "marks", "total", "total score"],
+  session: ["session", "academic session", "year"],
+  semester: ["semester", "sem", "term"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function guessCourseCsvMapping(headers: string[]): CourseCsvMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as CourseCsvMapping;
+  (Object.keys(headerAliases) as CourseCsvField[]).forEach((field) => {
+    const index = normalized.findIndex((header) =>
+      headerAliases[field].includes(header)
+    );
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+}
+
+// Problems with the mapping itself, before any row is read
+export function getCourseCsvMappingErrors(mapping: CourseCsvMapping): string[] {
+  const errors: string[] = [];
+  if (mapping.code === null) errors.push("Choose the course code column");
+  if (mapping.units === null) errors.push("Choose the units column");
+  if (mapping.grade === null && mapping.score === null) {
+    errors.push("Choose a grade or a score column");
+  }
+  return errors;
+}
+
+// Accepts "1", "1st", "First", "First Semester", "Harmattan" and the like
+export function parseSemester(value: string): Semester | null {
+  const text = value.trim().toLowerCase();
+  if (/^(1|1st|first|harmattan)\b/.test(text)) return "first";
+  if (/^(2|2nd|second|rain)\b/.test(text)) return "second";
+  return null;
+}
+
+// Accepts "2023/2024" or "2023-2024"
+export function parseSession(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})\s*[/-]\s*(\d{4})$/);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+export function mapCourseCsvRows(
+  rows: string[][],
+  mapping: CourseCsvMapping,
+  scheme: GradingScheme,
+  defaults: { session: string; semester: Semester; firstRowNumber: number }
+): CourseCsvRow[] {
+  const idPrefix = Date.now().toString();
+  const topScore = scheme.scoreBands[0]?.max ?? 100;
+
+  return rows.map((cells, index) => {
+    const cell = (field: CourseCsvField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const code = cell("code");
+    if (!code) errors.push("Course code is missing");
+
+    const unitsText = cell("units");
+    const units = Number(unitsText);
+    const { min, max } = scheme.creditLimits;
+    if (!unitsText || !Number.isInteger(units) || units < min || units > max) {
+      errors.push(`Units must be a whole number from ${min} to ${max}`);
+    }
+
+    const gradeText = cell("grade").toUpperCase();
+    const scoreText = cell("score");
+    let grade = "";
+    let score: number | undefined;
+    if (scoreText) {
+      score = Number(scoreText);
+      if (Number.isNaN(score) || score < 0 || score > topScore) {
+        errors.push(`Score must be a number from 0 to ${topScore}`);
+        score = undefined;
+      } else {
+        grade = getGradeForScore(scheme, score);
+        if (gradeText && gradeText !== grade) {
+          errors.push(
+            `Grade ${gradeText} does not match score ${score} (${grade})`
+          );
+        }
+      }
+    } else if (gradeText) {
+      if (scheme.grades.some((g) => g.grade === gradeText)) {
+        grade = gradeText;
+      } else {
+        errors.push(`Grade "${gradeText}" is not in the ${scheme.name} scheme`);
+      }
+    } else {
+      errors.push("Grade or score is missing");
+    }
+
+    const sessionText = cell("session");
+    const session = sessionText ? parseSession(sessionText) : defaults.session;
+    if (!session) errors.push(`Session "${sessionText}" is not like 2023/2024`);
+
+    const semesterText = cell("semester");
+    const semester = semesterText
+      ? parseSemester(semesterText)
+      : defaults.semester;
+    if (!semester) errors.push(`Semester "${semesterText}" is not recognised`);
+
+    const title = cell("title");
+    const course: Course | null =
+      errors.length === 0 && session && semester
+        ? {
+            id: `${idPrefix}-${index}`,
+            code,
+            ...(title ? { title } : {}),
+            grade,
+            creditHours: units,
+            session,
+            semester,
+            ...(score !== undefined ? { score } : {}),
+          }
+        : null;
+
+    return {
+      rowNumber: defaults.firstRowNumber + index,
+      cells,
+      course,
+      errors,
+    };
+  });
+}
+
+// Course list as CSV, with the points each course earns under the scheme
+export function exportCoursesToCSV(
+  courses: Course[],
+  scheme: GradingScheme
+): string {
+  const header = [
+    "Session",
+    "Semester",
+    "Code",
+    "Title",
+    "Units",
+    "Score",
+    "Grade",
+    "Grade Points",
+    "Quality Points",
+  ];
+  const rows = courses.map((course) => {
+    const counted = isCountableCourse(course);
+    return [
+      course.session,
+      semesterLabels[course.semester],
+      course.code,
+      course.title ?? "",
+      course.creditHours,
+      course.score ?? "",
+      course.grade,
+      counted ? getGradePoint(scheme, course.grade) : "",
+      counted ? getQualityPoints(course, scheme) : "",
+    ];
+  });
+  return toCSV([header, ...rows]);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { applyCourseMerge, planCourseMerge } from "@/lib/course-merge";
+import { createCourse } from "@/lib/test-fixtures";
+
+describe("planCourseMerge", () => {
+  it("sorts imported courses into additions, conflicts and matches", () => {
+    const current = [
+      createCourse({ id: "c1", code: "CSC101", grade: "A" }),
+      createCourse({ id: "c2", code: "MTH101", grade: "B" }),
+    ];
+    const plan = planCourseMerge(current, [
+      createCourse({ id: "i1", code: "csc 101", grade: "A" }),
+      createCourse({ id: "i2", code: "MTH101", grade: "C" }),
+      createCourse({ id: "i3", code: "PHY101" }),
+    ]);
+    expect(plan.unchangedCount).toBe(1);
+    expect(plan.conflicts.map((conflict) => conflict.imported.id)).toEqual([
+      "i2",
+    ]);
+    expect(plan.additions.map((addition) => addition.id)).toEqual(["i3"]);
+    expect(plan.matchedIds.get("i2")).toBe("c2");
+  });
+
+  it("matches a repeated imported code to one current course only", () => {
+    const current = [createCourse({ id: "c1", grade: "C" })];
+    const failed = createCourse({ id: "i1", grade: "F" });
+    const retake = createCourse({ id: "i2", grade: "B", session: "2023/2024" });
+    const plan = planCourseMerge(current, [failed, retake]);
+
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0].imported).toBe(failed);
+    expect(plan.additions).toEqual([retake]);
+  });
+
+  it("pairs repeated codes with separate current attempts", () => {
+    const current = [
+      createCourse({ id: "c1", grade: "F" }),
+      createCourse({ id: "c2", grade: "C", session: "2023/2024" }),
+    ];
+    const plan = planCourseMerge(current, [
+      createCourse({ id: "i1", grade: "F" }),
+      createCourse({ id: "i2", grade: "B", session: "2023/2024" }),
+    ]);
+    expect(plan.unchangedCount).toBe(1);
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0].current.id).toBe("c2");
+    expect(plan.additions).toEqual([]);
+  });
+
+  it("gives every conflict its own key", () => {
+    const current = [
+      createCourse({ id: "c1", code: "CSC101", grade: "A" }),
+      createCourse({ id: "c2", code: "MTH101", grade: "A" }),
+    ];
+    const plan = planCourseMerge(current, [
+      createCourse({ id: "same", code: "CSC101", grade: "B" }),
+      createCourse({ id: "same", code: "MTH101", grade: "B" }),
+    ]);
+    const keys = plan.conflicts.map((conflict) => conflict.key);
+    expect(new Set(keys).size).toBe(2);
+  });
+});
+
+describe("applyCourseMerge", () => {
+  it("applies each conflict's choice and adds the rest", () => {
+    const current = [createCourse({ id: "c1", grade: "C" })];
+    const plan = planCourseMerge(current, [
+      createCourse({ id: "i1", grade: "F" }),
+      createCourse({ id: "i2", grade: "B", session: "2023/2024" }),
+    ]);
+    const merged = applyCourseMerge(current, plan, {
+      [plan.conflicts[0].key]: "imported",
+    });
+
+    expect(merged.map((c) => [c.grade, c.session])).toEqual([
+      ["F", "2022/2023"],
+      ["B", "2023/2024"],
+    ]);
+    expect(merged[0].id).toBe("c1");
+    expect(new Set(merged.map((c) => c.id)).size).toBe(2);
+  });
+
+  it("keeps the current course when no choice was made", () => {
+    const current = [createCourse({ id: "c1", grade: "C" })];
+    const plan = planCourseMerge(current, [
+      createCourse({ id: "i1", grade: "F" }),
+    ]);
+    expect(applyCourseMerge(current, plan, {})).toEqual(current);
+  });
+});
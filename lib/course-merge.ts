@@ -0,0 +1,154 @@
+import type { Course } from "@/lib/types";
+
+export type ImportMode = "replace" | "append" | "merge";
+
+export const importModeLabels: Record<ImportMode, string> = {
+  replace: "Replace my courses",
+  append: "Add to my courses",
+  merge: "Merge by course code",
+};
+
+export type ConflictChoice = "current" | "imported";
+
+export interface CourseConflict {
+  // Unique per conflict: the imported course's position in the import
+  key: string;
+  current: Course;
+  imported: Course;
+}
+
+export interface CourseMergePlan {
+  // Imported courses with no matching course in the current list
+  additions: Course[];
+  // Same course on both sides with a different grade or unit count
+  conflicts: CourseConflict[];
+  // Imported courses identical to one already in the list
+  unchangedCount: number;
+  // Current course id for each imported course that matched one
+  matchedIds: Map<string, string>;
+}
+
+// "CSC 101" and "csc101" are the same course
+export function normalizeCourseCode(code: string): string {
+  return code.replace(/\s+/g, "").toLowerCase();
+}
+
+// Course codes entered more than once, ignoring attempts marked as retakes
+export function getDuplicateCourseCodes(courses: Course[]): string[] {
+  const courseCodes = courses
+    .filter((course) => course.retakeOf === undefined)
+    .map((course) => normalizeCourseCode(course.code))
+    .filter((code) => code !== "");
+  const duplicates = courseCodes.filter(
+    (code, index) => courseCodes.indexOf(code) !== index
+  );
+  return Array.from(new Set(duplicates));
+}
+
+// Key for finding the same course in two lists: first attempts match on
+// code alone; retakes also need the same semester
+export function getCourseMatchKey(course: Course): string {
+  const code = normalizeCourseCode(course.code);
+  return course.retakeOf === undefined
+    ? code
+    : `${code}|${course.session}|${course.semester}`;
+}
+
+// Give imported courses fresh ids so they cannot clash with existing ones,
+// keeping retake links between them intact
+function reassignIds(
+  imported: Course[],
+  existingIds: Map<string, string> = new Map()
+): Course[] {
+  const stamp = Date.now().toString();
+  const ids = new Map(existingIds);
+  imported.forEach((course, index) => {
+    if (!ids.has(course.id)) ids.set(course.id, `${stamp}-${index}`);
+  });
+  return imported.map((course) => ({
+    ...course,
+    id: ids.get(course.id) ?? course.id,
+    retakeOf:
+      course.retakeOf === undefined
+        ? undefined
+        : (ids.get(course.retakeOf) ?? course.retakeOf),
+  }));
+}
+
+export function appendCourses(current: Course[], imported: Course[]): Course[] {
+  return [...current, ...reassignIds(imported)];
+}
+
+export function planCourseMerge(
+  current: Course[],
+  imported: Course[]
+): CourseMergePlan {
+  const currentByKey = new Map<string, Course[]>();
+  current.forEach((course) => {
+    if (normalizeCourseCode(course.code) === "") return;
+    const key = getCourseMatchKey(course);
+    currentByKey.set(key, [...(currentByKey.get(key) ?? []), course]);
+  });
+  // Each current course matches one imported course at most, so a repeated
+  // code in the import pairs with the next attempt or is added
+  const claimedIds = new Set<string>();
+
+  const plan: CourseMergePlan = {
+    additions: [],
+    conflicts: [],
+    unchangedCount: 0,
+    matchedIds: new Map(),
+  };
+  imported.forEach((course, index) => {
+    const match =
+      normalizeCourseCode(course.code) === ""
+        ? undefined
+        : (currentByKey.get(getCourseMatchKey(course)) ?? []).find(
+            (candidate) => !claimedIds.has(candidate.id)
+          );
+    if (!match) {
+      plan.additions.push(course);
+      return;
+    }
+
+    claimedIds.add(match.id);
+    plan.matchedIds.set(course.id, match.id);
+    if (
+      match.grade === course.grade &&
+      match.creditHours === course.creditHours
+    ) {
+      plan.unchangedCount++;
+    } else {
+      plan.conflicts.push({
+        key: String(index),
+        current: match,
+        imported: course,
+      });
+    }
+  });
+  return plan;
+}
+
+// Apply a merge plan; conflicts without a choice keep the current course
+export function applyCourseMerge(
+  current: Course[],
+  plan: CourseMergePlan,
+  choices: Record<string, ConflictChoice>
+): Course[] {
+  const replacements = new Map<string, Course>();
+  plan.conflicts.forEach(({ key, current: mine, imported }) => {
+    if (choices[key] === "imported") {
+      replacements.set(mine.id, {
+        ...imported,
+        id: mine.id,
+        retakeOf: mine.retakeOf,
+      });
+    }
+  });
+
+  return [
+    ...current.map((course) => replacements.get(course.id) ?? course),
+    // Imported retakes of matched courses link to the course they matched
+    ...reassignIds(plan.additions, plan.matchedIds),
+  ];
+}
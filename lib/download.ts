@@ -0,0 +1,22 @@
+// Save text content as a file through a temporary download link
+export function downloadFile(
+  content: string,
+  fileName: string,
+  type: string
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Date stamp used in downloaded file names, e.g. "2024-05-01"
+export function getFileDateStamp(date: Date = new Date()): string {
+  return date.toISOString().split("T")[0];
+}
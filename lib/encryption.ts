@@ -0,0 +1,99 @@
+import { fromBase64Url, toBase64Url } from "@/lib/base64";
+
+export const ENCRYPTED_FILE_TYPE = "cgpa-encrypted-backup";
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedFile {
+  type: typeof ENCRYPTED_FILE_TYPE;
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  // Base64url ciphertext of the original JSON, including the GCM tag
+  data: string;
+}
+
+export function isEncryptedFile(value: unknown): value is EncryptedFile {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncryptedFile).type === ENCRYPTED_FILE_TYPE
+  );
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    // Copied so WebCrypto gets a plain ArrayBuffer-backed view
+    { name: "PBKDF2", hash: "SHA-256", salt: new Uint8Array(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptText(
+  plainText: string,
+  passphrase: string
+): Promise<EncryptedFile> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const cipherText = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plainText)
+  );
+
+  return {
+    type: ENCRYPTED_FILE_TYPE,
+    version: 1,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64Url(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64Url(iv) },
+    data: toBase64Url(new Uint8Array(cipherText)),
+  };
+}
+
+// AES-GCM cannot tell a wrong passphrase from a tampered file, so both
+// surface as the same error
+export async function decryptText(
+  file: EncryptedFile,
+  passphrase: string
+): Promise<string> {
+  if (file.version !== 1 || typeof file.data !== "string") {
+    throw new Error("This encrypted file is in an unsupported format");
+  }
+
+  try {
+    const key = await deriveKey(
+      passphrase,
+      fromBase64Url(file.kdf.salt),
+      file.kdf.iterations
+    );
+    const plainText = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(fromBase64Url(file.cipher.iv)) },
+      key,
+      new Uint8Array(fromBase64Url(file.data))
+    );
+    return new TextDecoder().decode(plainText);
+  } catch {
+    throw new Error("Wrong passphrase, or the file is damaged");
+  }
+}
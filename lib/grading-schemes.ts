@@ -0,0 +1,149 @@
+import { DEFAULT_ROUNDING_POLICY, type RoundingPolicy } from "@/lib/rounding";
+
+export interface GradeDefinition {
+  grade: string;
+  points: number;
+  description: string;
+}
+
+export interface ScoreBand {
+  grade: string;
+  min: number;
+  max: number;
+}
+
+export interface DegreeClass {
+  name: string;
+  min: number;
+  max: number;
+}
+
+export interface GradingScheme {
+  id: string;
+  name: string;
+  institution: string;
+  maxScale: number;
+  grades: GradeDefinition[];
+  // Exam score ranges for each grade, ordered from the highest band down
+  scoreBands: ScoreBand[];
+  // Allowed credit units for a single course
+  creditLimits: {
+    min: number;
+    max: number;
+  };
+  // Ordered from the highest class down
+  degreeClasses: DegreeClass[];
+  // How the CGPA is rounded for display, exports and transcripts
+  rounding: RoundingPolicy;
+  // Heading printed on PDF transcripts and the start of their file names
+  transcript: {
+    title: string;
+    fileNamePrefix: string;
+  };
+}
+
+export const DEFAULT_SCHEME_ID = "unilag-5.0";
+
+// Scheme used for the "equivalent 4.0 scale" conversion
+export const EQUIVALENT_SCHEME_ID = "standard-4.0";
+
+export const gradingSchemes: Record<string, GradingScheme> = {
+  "unilag-5.0": {
+    id: "unilag-5.0",
+    name: "UNILAG (5.0)",
+    institution: "University of Lagos",
+    maxScale: 5.0,
+    grades: [
+      { grade: "A", points: 5.0, description: "Excellent" },
+      { grade: "B", points: 4.0, description: "Very Good" },
+      { grade: "C", points: 3.0, description: "Good" },
+      { grade: "D", points: 2.0, description: "Fair" },
+      { grade: "E", points: 1.0, description: "Pass" },
+      { grade: "F", points: 0.0, description: "Fail" },
+    ],
+    scoreBands: [
+      { grade: "A", min: 70, max: 100 },
+      { grade: "B", min: 60, max: 69 },
+      { grade: "C", min: 50, max: 59 },
+      { grade: "D", min: 45, max: 49 },
+      { grade: "E", min: 40, max: 44 },
+      { grade: "F", min: 0, max: 39 },
+    ],
+    creditLimits: { min: 1, max: 6 },
+    degreeClasses: [
+      { name: "First Class", min: 4.5, max: 5.0 },
+      { name: "Second Class Upper", min: 3.5, max: 4.49 },
+      { name: "Second Class Lower", min: 2.4, max: 3.49 },
+      { name: "Third Class", min: 1.5, max: 2.39 },
+      { name: "Pass", min: 1.0, max: 1.49 },
+    ],
+    rounding: DEFAULT_ROUNDING_POLICY,
+    transcript: {
+      title: "UNIVERSITY OF LAGOS",
+      fileNamePrefix: "UNILAG_Transcript",
+    },
+  },
+  "standard-4.0": {
+    id: "standard-4.0",
+    name: "Standard (4.0)",
+    institution: "Standard 4.0 scale",
+    maxScale: 4.0,
+    grades: [
+      { grade: "A", points: 4.0, description: "Excellent" },
+      { grade: "B", points: 3.0, description: "Very Good" },
+      { grade: "C", points: 2.0, description: "Good" },
+      { grade: "D", points: 1.0, description: "Fair" },
+      // E has no 4.0 equivalent and counts as a fail
+      { grade: "E", points: 0.0, description: "Fail" },
+      { grade: "F", points: 0.0, description: "Fail" },
+    ],
+    scoreBands: [
+      { grade: "A", min: 70, max: 100 },
+      { grade: "B", min: 60, max: 69 },
+      { grade: "C", min: 50, max: 59 },
+      { grade: "D", min: 45, max: 49 },
+      { grade: "E", min: 40, max: 44 },
+      { grade: "F", min: 0, max: 39 },
+    ],
+    creditLimits: { min: 1, max: 6 },
+    degreeClasses: [
+      { name: "First Class", min: 3.5, max: 4.0 },
+      { name: "Second Class Upper", min: 3.0, max: 3.49 },
+      { name: "Second Class Lower", min: 2.0, max: 2.99 },
+      { name: "Third Class", min: 1.0, max: 1.99 },
+    ],
+    rounding: DEFAULT_ROUNDING_POLICY,
+    transcript: {
+      title: "STANDARD 4.0 SCALE",
+      fileNamePrefix: "Transcript_4.0",
+    },
+  },
+};
+
+// Scheme ids for files saved with the old "4.0" | "5.0" scale field
+export const legacyScaleSchemeIds: Record<string, string> = {
+  "5.0": "unilag-5.0",
+  "4.0": "standard-4.0",
+};
+
+// Own keys only, so ids such as "toString" or "__proto__" are not schemes
+export function isGradingSchemeId(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(gradingSchemes, id);
+}
+
+export function getGradingScheme(id: string): GradingScheme {
+  return gradingSchemes[isGradingSchemeId(id) ? id : DEFAULT_SCHEME_ID];
+}
+
+export function getGradePoint(scheme: GradingScheme, grade: string): number {
+  return scheme.grades.find((g) => g.grade === grade)?.points ?? 0;
+}
+
+// Scores between two integer bands (e.g. 69.5) fall into the lower band
+export function getGradeForScore(scheme: GradingScheme, score: number): string {
+  const topBand = scheme.scoreBands[0];
+  if (!topBand || Number.isNaN(score) || score < 0 || score > topBand.max) {
+    return "";
+  }
+  return scheme.scoreBands.find((band) => score >= band.min)?.grade ?? "";
+}
@@ -0,0 +1,115 @@
+import type { GradingScheme } from "@/lib/grading-schemes";
+
+export interface GradeMix {
+  parts: { grade: string; units: number }[];
+  average: number;
+}
+
+export interface TargetPlan {
+  requiredPoints: number;
+  requiredAverage: number;
+  // Best CGPA reachable by scoring the top grade in every remaining unit
+  maxReachable: number;
+  alreadyMet: boolean;
+  achievable: boolean;
+  mixes: GradeMix[];
+}
+
+const EPSILON = 1e-9;
+const MAX_MIXES = 3;
+
+// Grades with distinct points, highest first (E and F share 0.0 on 4.0)
+function getDistinctGrades(scheme: GradingScheme) {
+  const seen = new Set<number>();
+  return [...scheme.grades]
+    .sort((a, b) => b.points - a.points)
+    .filter((g) => {
+      if (seen.has(g.points)) return false;
+      seen.add(g.points);
+      return true;
+    });
+}
+
+// Two-grade splits of the remaining units that reach the required points
+function getGradeMixes(
+  scheme: GradingScheme,
+  requiredPoints: number,
+  remainingCredits: number
+): GradeMix[] {
+  const requiredAverage = requiredPoints / remainingCredits;
+  const grades = getDistinctGrades(scheme);
+  const mixes: GradeMix[] = [];
+
+  const exact = grades.find(
+    (g) => Math.abs(g.points - requiredAverage) < EPSILON
+  );
+  if (exact) {
+    mixes.push({
+      parts: [{ grade: exact.grade, units: remainingCredits }],
+      average: exact.points,
+    });
+  }
+
+  const higher = grades
+    .filter((g) => g.points > requiredAverage + EPSILON)
+    .reverse();
+  const lower = grades.filter((g) => g.points < requiredAverage - EPSILON);
+
+  for (const hi of higher) {
+    for (const lo of lower) {
+      if (mixes.length >= MAX_MIXES) return mixes;
+
+      const hiUnits = Math.ceil(
+        (requiredPoints - lo.points * remainingCredits) /
+          (hi.points - lo.points) -
+          EPSILON
+      );
+      const loUnits = remainingCredits - hiUnits;
+      if (hiUnits <= 0 || loUnits <= 0) continue;
+
+      mixes.push({
+        parts: [
+          { grade: hi.grade, units: hiUnits },
+          { grade: lo.grade, units: loUnits },
+        ],
+        average: (hi.points * hiUnits + lo.points * loUnits) / remainingCredits,
+      });
+    }
+  }
+
+  return mixes;
+}
+
+export function planTargetCGPA(
+  scheme: GradingScheme,
+  totalPoints: number,
+  totalCredits: number,
+  targetCGPA: number,
+  remainingCredits: number
+): TargetPlan {
+  const finalCredits = totalCredits + remainingCredits;
+  const requiredPoints = targetCGPA * finalCredits - totalPoints;
+  const requiredAverage =
+    remainingCredits > 0 ? Math.max(0, requiredPoints / remainingCredits) : 0;
+  const maxReachable =
+    finalCredits > 0
+      ? (totalPoints + scheme.maxScale * remainingCredits) / finalCredits
+      : 0;
+
+  const alreadyMet = requiredPoints <= EPSILON;
+  const achievable =
+    alreadyMet ||
+    (remainingCredits > 0 && requiredAverage <= scheme.maxScale + EPSILON);
+
+  return {
+    requiredPoints,
+    requiredAverage,
+    maxReachable,
+    alreadyMet,
+    achievable,
+    mixes:
+      achievable && !alreadyMet
+        ? getGradeMixes(scheme, requiredPoints, remainingCredits)
+        : [],
+  };
+}
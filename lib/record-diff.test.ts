@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { diffSavedData } from "@/lib/record-diff";
+import { createEmptySavedData } from "@/lib/saved-data";
+import { createCourse } from "@/lib/test-fixtures";
+import type { Course, SavedData } from "@/lib/types";
+
+const record = (courses: Course[]): SavedData => ({
+  ...createEmptySavedData(),
+  courses,
+});
+
+describe("diffSavedData", () => {
+  it("finds no changes between a record and itself", () => {
+    const data = record([
+      createCourse({ code: "MTH101", grade: "F" }),
+      createCourse({ code: "CSC101", grade: "A" }),
+      createCourse({ code: "MTH101", grade: "C", session: "2023/2024" }),
+    ]);
+    const diff = diffSavedData(data, data);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchangedCount).toBe(3);
+  });
+
+  it("pairs repeated codes with their identical attempt when reordered", () => {
+    const failed = createCourse({ code: "MTH101", grade: "F" });
+    const passed = createCourse({ code: "MTH101", grade: "C" });
+    const diff = diffSavedData(
+      record([failed, passed]),
+      record([passed, failed])
+    );
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchangedCount).toBe(2);
+  });
+
+  it("reports added, removed and changed courses", () => {
+    const before = [
+      createCourse({ code: "CSC101", grade: "B" }),
+      createCourse({ code: "MTH101", grade: "F" }),
+      createCourse({ code: "MTH101", grade: "D" }),
+    ];
+    const after = [
+      createCourse({ code: "CSC101", grade: "A" }),
+      createCourse({ code: "MTH101", grade: "F" }),
+      createCourse({ code: "PHY101", grade: "B" }),
+    ];
+    const diff = diffSavedData(record(before), record(after));
+
+    expect(diff.changed.map((change) => change.after)).toEqual([after[0]]);
+    expect(diff.changed[0].gradeChanged).toBe(true);
+    expect(diff.added).toEqual([after[2]]);
+    expect(diff.removed).toEqual([before[2]]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { type GradeSummary, computeCGPA } from "@/lib/cgpa-engine";
+import { getCourseMatchKey, normalizeCourseCode } from "@/lib/course-merge";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import type { Course, SavedData } from "@/lib/types";
+
+export interface CourseChange {
+  key: string;
+  before: Course;
+  after: Course;
+  gradeChanged: boolean;
+  unitsChanged: boolean;
+}
+
+export interface RecordDiff {
+  added: Course[];
+  removed: Course[];
+  changed: CourseChange[];
+  unchangedCount: number;
+  // Each record summarised under its own scheme and policies
+  before: GradeSummary;
+  after: GradeSummary;
+  // The CGPA moved between different schemes, so the change is not like for like
+  schemeChanged: boolean;
+}
+
+const summarize = (data: SavedData) =>
+  computeCGPA(data.courses, getGradingScheme(data.schemeId), {
+    retakePolicy: data.retakePolicy,
+    rounding: data.roundingPolicy,
+  }).overall;
+
+// Courses without a code cannot be matched, so they are keyed by id
+const keyFor = (course: Course) =>
+  normalizeCourseCode(course.code) === ""
+    ? `id:${course.id}`
+    : getCourseMatchKey(course);
+
+export function diffSavedData(before: SavedData, after: SavedData): RecordDiff {
+  // A code can appear more than once (e.g. a failed attempt and an unlinked
+  // retake), so each key holds every matching course, in order
+  const beforeByKey = new Map<string, Course[]>();
+  before.courses.forEach((course) => {
+    const key = keyFor(course);
+    beforeByKey.set(key, [...(beforeByKey.get(key) ?? []), course]);
+  });
+
+  const diff: RecordDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchangedCount: 0,
+    before: summarize(before),
+    after: summarize(after),
+    schemeChanged: before.schemeId !== after.schemeId,
+  };
+
+  // Each before course pairs with one after course at most; an identical
+  // attempt is preferred so reordered repeats do not show as changes
+  const matched = new Set<Course>();
+  after.courses.forEach((course) => {
+    const key = keyFor(course);
+    const candidates = (beforeByKey.get(key) ?? []).filter(
+      (candidate) => !matched.has(candidate)
+    );
+    const previous =
+      candidates.find(
+        (candidate) =>
+          candidate.grade === course.grade &&
+          candidate.creditHours === course.creditHours
+      ) ?? candidates[0];
+    if (!previous) {
+      diff.added.push(course);
+      return;
+    }
+
+    matched.add(previous);
+    const gradeChanged = previous.grade !== course.grade;
+    const unitsChanged = previous.creditHours !== course.creditHours;
+    if (gradeChanged || unitsChanged) {
+      diff.changed.push({
+        key,
+        before: previous,
+        after: course,
+        gradeChanged,
+        unitsChanged,
+      });
+    } else {
+      diff.unchangedCount++;
+    }
+  });
+
+  diff.removed = before.courses.filter((course) => !matched.has(course));
+  return diff;
+}
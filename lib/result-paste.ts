@@ -0,0 +1,203 @@
+import { type GradingScheme, getGradeForScore } from "@/lib/grading-schemes";
+import type { Course, Semester } from "@/lib/types";
+
+export type PasteConfidence = "high" | "medium" | "low";
+
+export interface PastedResultLine {
+  lineNumber: number;
+  text: string;
+  code: string;
+  units: number | null;
+  grade: string;
+  score?: number;
+  session: string;
+  semester: Semester;
+  confidence: PasteConfidence;
+  // What had to be guessed, or could not be found
+  notes: string[];
+}
+
+// e.g. "CSC 301", "CSC301", "GST-101", "MTH 201B"
+const COURSE_CODE = /\b([A-Za-z]{2,4})\s*-?\s*(\d{3}[A-Za-z]?)\b/;
+// e.g. "(2 units)", "3 credits", "3u", "CU: 3"
+const EXPLICIT_UNITS =
+  /\b(\d+)\s*(?:units?|credits?|cu|u)\b|\b(?:units?|credits?|cu)\s*[:=]?\s*(\d+)\b/i;
+const SESSION = /\b(\d{4})\s*[/-]\s*(\d{4})\b/;
+const SEMESTER_HEADING =
+  /\b(first|1st|harmattan|second|2nd|rain)\s+semester\b|\bsemester\s*[:\-]?\s*(1|2|one|two)\b/i;
+
+// Session and semester headings set the context for the lines below them
+function readHeading(
+  text: string
+): { session?: string; semester?: Semester } | null {
+  const session = text.match(SESSION);
+  const semester = text.match(SEMESTER_HEADING);
+  if (!session && !semester) return null;
+
+  const semesterWord = semester
+    ? (semester[1] ?? semester[2]).toLowerCase()
+    : "";
+  return {
+    session: session ? `${session[1]}/${session[2]}` : undefined,
+    semester: semester
+      ? /^(first|1st|harmattan|1|one)$/.test(semesterWord)
+        ? "first"
+        : "second"
+      : undefined,
+  };
+}
+
+function parseLine(
+  text: string,
+  scheme: GradingScheme,
+  context: { lineNumber: number; session: string; semester: Semester }
+): PastedResultLine {
+  const notes: string[] = [];
+  let confidence: PasteConfidence = "high";
+  const lower = (to: PasteConfidence) => {
+    if (to === "low" || confidence === "high") confidence = to;
+  };
+
+  const codeMatch = text.match(COURSE_CODE);
+  const code = codeMatch
+    ? `${codeMatch[1].toUpperCase()}${codeMatch[2].toUpperCase()}`
+    : "";
+  let rest = codeMatch ? text.replace(codeMatch[0], " ") : text;
+  if (!code) {
+    notes.push("No course code found");
+    lower("low");
+  }
+
+  // Units written out explicitly win over bare numbers
+  let units: number | null = null;
+  const explicitUnits = rest.match(EXPLICIT_UNITS);
+  if (explicitUnits) {
+    units = parseInt(explicitUnits[1] ?? explicitUnits[2]);
+    rest = rest.replace(explicitUnits[0], " ");
+  }
+
+  const tokens = rest.split(/[\s,;|()\[\]:–-]+/).filter(Boolean);
+  const numbers = tokens
+    .filter((token) => /^\d+(\.\d+)?$/.test(token))
+    .map(Number);
+  const { min, max } = scheme.creditLimits;
+  const topScore = scheme.scoreBands[0]?.max ?? 100;
+
+  if (units === null) {
+    const unitCandidates = numbers.filter(
+      (n) => Number.isInteger(n) && n >= min && n <= max
+    );
+    if (unitCandidates.length > 0) {
+      units = unitCandidates[0];
+      if (unitCandidates.length > 1) {
+        notes.push(`Several possible unit counts; picked ${units}`);
+        lower("medium");
+      }
+    } else {
+      notes.push("No unit count found");
+      lower("low");
+    }
+  }
+
+  const scoreCandidates = numbers.filter((n) => n > max && n <= topScore);
+  const score =
+    scoreCandidates.length > 0
+      ? scoreCandidates[scoreCandidates.length - 1]
+      : undefined;
+
+  // Grades are matched case-sensitively so title words like "a" are skipped
+  const gradeCandidates = tokens.filter((token) =>
+    scheme.grades.some((g) => g.grade === token)
+  );
+  let grade = gradeCandidates[gradeCandidates.length - 1] ?? "";
+  if (gradeCandidates.length > 1) {
+    notes.push(`Several possible grades; picked ${grade}`);
+    lower("medium");
+  }
+
+  if (score !== undefined) {
+    const scoreGrade = getGradeForScore(scheme, score);
+    if (!grade) {
+      grade = scoreGrade;
+      notes.push(`Grade worked out from score ${score}`);
+      lower("medium");
+    } else if (grade !== scoreGrade) {
+      notes.push(`Grade ${grade} does not match score ${score}`);
+      lower("low");
+    }
+  } else if (!grade) {
+    notes.push("No grade found");
+    lower("low");
+  }
+
+  return {
+    lineNumber: context.lineNumber,
+    text,
+    code,
+    units,
+    grade,
+    ...(score !== undefined ? { score } : {}),
+    session: context.session,
+    semester: context.semester,
+    confidence,
+    notes,
+  };
+}
+
+// Parse text copied from a results page, one course per line
+export function parsePastedResults(
+  text: string,
+  scheme: GradingScheme,
+  defaults: { session: string; semester: Semester }
+): PastedResultLine[] {
+  let session = defaults.session;
+  let semester = defaults.semester;
+  const results: PastedResultLine[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (!COURSE_CODE.test(line)) {
+      const heading = readHeading(line);
+      if (heading) {
+        session = heading.session ?? session;
+        semester = heading.semester ?? semester;
+        return;
+      }
+    }
+
+    results.push(
+      parseLine(line, scheme, { lineNumber: index + 1, session, semester })
+    );
+  });
+
+  return results;
+}
+
+// A line, as parsed or corrected by hand, that can become a course
+export function isPastedLineComplete(
+  line: PastedResultLine,
+  scheme: GradingScheme
+): boolean {
+  const { min, max } = scheme.creditLimits;
+  return (
+    line.code.trim() !== "" &&
+    line.units !== null &&
+    line.units >= min &&
+    line.units <= max &&
+    scheme.grades.some((g) => g.grade === line.grade)
+  );
+}
+
+export function pastedLineToCourse(line: PastedResultLine, id: string): Course {
+  return {
+    id,
+    code: line.code.trim().toUpperCase(),
+    grade: line.grade,
+    creditHours: line.units ?? 0,
+    session: line.session,
+    semester: line.semester,
+    ...(line.score !== undefined ? { score: line.score } : {}),
+  };
+}
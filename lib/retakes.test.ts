@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import {
+  getEffectiveCourses,
+  getOutstandingCarryOvers,
+  getSupersededCourseIds,
+  isEarlierAttempt,
+} from "@/lib/retakes";
+import { createCourse } from "@/lib/test-fixtures";
+
+const scheme = getGradingScheme("unilag-5.0");
+
+const failed = createCourse({ id: "1", grade: "F" });
+const retake = createCourse({
+  id: "2",
+  grade: "A",
+  session: "2023/2024",
+  retakeOf: "1",
+});
+const other = createCourse({ id: "3", code: "MTH101", grade: "B" });
+
+describe("getSupersededCourseIds", () => {
+  it("lists attempts that a later course retakes", () => {
+    expect(Array.from(getSupersededCourseIds([failed, retake, other]))).toEqual(
+      ["1"]
+    );
+  });
+
+  it("ignores links to courses that are not in the list", () => {
+    expect(getSupersededCourseIds([retake]).size).toBe(0);
+  });
+});
+
+describe("getEffectiveCourses", () => {
+  it("counts every attempt under count-all", () => {
+    const courses = [failed, retake, other];
+    expect(
+      getEffectiveCourses(courses, { mode: "count-all", capGrade: "C" }, scheme)
+    ).toEqual(courses);
+  });
+
+  it("drops the earlier attempt under replace", () => {
+    expect(
+      getEffectiveCourses(
+        [failed, retake, other],
+        { mode: "replace", capGrade: "C" },
+        scheme
+      )
+    ).toEqual([retake, other]);
+  });
+
+  it("caps the retake's grade under cap", () => {
+    expect(
+      getEffectiveCourses(
+        [failed, retake, other],
+        { mode: "cap", capGrade: "C" },
+        scheme
+      )
+    ).toEqual([{ ...retake, grade: "C" }, other]);
+  });
+
+  it("leaves retakes below the cap and unlinked courses unchanged", () => {
+    const lowRetake = { ...retake, grade: "D" };
+    const unlinked = createCourse({ id: "4", grade: "A" });
+    expect(
+      getEffectiveCourses(
+        [failed, lowRetake, unlinked],
+        { mode: "cap", capGrade: "C" },
+        scheme
+      )
+    ).toEqual([lowRetake, unlinked]);
+  });
+});
+
+describe("getOutstandingCarryOvers", () => {
+  it("lists failed courses with no passing attempt", () => {
+    const physics = createCourse({ id: "5", code: "PHY101", grade: "F" });
+    expect(getOutstandingCarryOvers([failed, other, physics], scheme)).toEqual([
+      failed,
+      physics,
+    ]);
+  });
+
+  it("clears a carry-over once the code is passed", () => {
+    expect(getOutstandingCarryOvers([failed, retake], scheme)).toEqual([]);
+  });
+});
+
+describe("retake links", () => {
+  it("ignores a link to a later attempt", () => {
+    const later = createCourse({ id: "b", grade: "B", session: "2023/2024" });
+    const early = createCourse({ id: "a", grade: "F", retakeOf: "b" });
+    expect(getSupersededCourseIds([early, later]).size).toBe(0);
+    expect(
+      getEffectiveCourses(
+        [early, later],
+        { mode: "replace", capGrade: "C" },
+        scheme
+      )
+    ).toEqual([early, later]);
+  });
+
+  it("ignores links that form a loop", () => {
+    const courses = [
+      createCourse({ id: "a", grade: "F", retakeOf: "c" }),
+      createCourse({ id: "b", grade: "D", retakeOf: "a" }),
+      createCourse({ id: "c", grade: "C", retakeOf: "b" }),
+    ];
+    expect(
+      getEffectiveCourses(courses, { mode: "replace", capGrade: "C" }, scheme)
+    ).toEqual(courses);
+  });
+
+  it("orders attempts by session, then semester", () => {
+    const first = createCourse({ session: "2022/2023", semester: "second" });
+    const second = createCourse({ session: "2023/2024", semester: "first" });
+    expect(isEarlierAttempt(first, second)).toBe(true);
+    expect(isEarlierAttempt(second, first)).toBe(false);
+    expect(isEarlierAttempt(first, first)).toBe(false);
+  });
+});
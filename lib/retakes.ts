@@ -0,0 +1,123 @@
+import { type GradingScheme, getGradePoint } from "@/lib/grading-schemes";
+import { compareSemesters } from "@/lib/sessions";
+import type { Course } from "@/lib/types";
+
+export type RetakePolicyMode = "count-all" | "replace" | "cap";
+
+export interface RetakePolicy {
+  mode: RetakePolicyMode;
+  // Highest grade a retake can earn under the "cap" policy
+  capGrade: string;
+}
+
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = {
+  mode: "count-all",
+  capGrade: "C",
+};
+
+export const retakePolicyLabels: Record<RetakePolicyMode, string> = {
+  "count-all": "Count all attempts",
+  replace: "Retake replaces old grade",
+  cap: "Retake replaces old grade, capped",
+};
+
+export function isFailingGrade(scheme: GradingScheme, grade: string): boolean {
+  return grade !== "" && getGradePoint(scheme, grade) === 0;
+}
+
+// A retake must come from a later semester than the attempt it retakes
+export function isEarlierAttempt(attempt: Course, course: Course): boolean {
+  return compareSemesters(attempt, course) < 0;
+}
+
+// Whether a course's retake link counts: it must point to an earlier attempt,
+// which also rules out loops such as a -> b -> a
+function hasValidRetakeLink(
+  course: Course,
+  coursesById: Map<string, Course>
+): boolean {
+  if (course.retakeOf === undefined) return false;
+  const attempt = coursesById.get(course.retakeOf);
+  return attempt !== undefined && isEarlierAttempt(attempt, course);
+}
+
+const indexById = (courses: Course[]) => {
+  const coursesById = new Map<string, Course>();
+  courses.forEach((course) => {
+    if (!coursesById.has(course.id)) coursesById.set(course.id, course);
+  });
+  return coursesById;
+};
+
+// Earlier attempts that a later course has been marked as a retake of
+export function getSupersededCourseIds(courses: Course[]): Set<string> {
+  const coursesById = indexById(courses);
+  return new Set(
+    courses
+      .filter((course) => hasValidRetakeLink(course, coursesById))
+      .map((course) => course.retakeOf as string)
+  );
+}
+
+// Each course as it counts under the given retake policy, position for
+// position, or null where a retake has replaced it
+export function mapEffectiveCourses(
+  courses: Course[],
+  policy: RetakePolicy,
+  scheme: GradingScheme
+): (Course | null)[] {
+  if (policy.mode === "count-all") return courses;
+
+  const coursesById = indexById(courses);
+  const superseded = getSupersededCourseIds(courses);
+  const capPoints = getGradePoint(scheme, policy.capGrade);
+
+  return courses.map((course) => {
+    if (superseded.has(course.id)) return null;
+    return policy.mode === "cap" &&
+      hasValidRetakeLink(course, coursesById) &&
+      getGradePoint(scheme, course.grade) > capPoints
+      ? { ...course, grade: policy.capGrade }
+      : course;
+  });
+}
+
+// Courses as they count towards the CGPA under the given retake policy
+export function getEffectiveCourses(
+  courses: Course[],
+  policy: RetakePolicy,
+  scheme: GradingScheme
+): Course[] {
+  return mapEffectiveCourses(courses, policy, scheme).filter(
+    (course): course is Course => course !== null
+  );
+}
+
+// Failed courses with no passing attempt under the same code yet
+export function getOutstandingCarryOvers(
+  courses: Course[],
+  scheme: GradingScheme
+): Course[] {
+  const passedCodes = new Set(
+    courses
+      .filter(
+        (course) => course.grade !== "" && !isFailingGrade(scheme, course.grade)
+      )
+      .map((course) => course.code.trim().toLowerCase())
+  );
+
+  // Keep only the latest failed attempt of each course
+  const outstanding = new Map<string, Course>();
+  courses.forEach((course) => {
+    const code = course.code.trim().toLowerCase();
+    if (
+      code !== "" &&
+      isFailingGrade(scheme, course.grade) &&
+      !passedCodes.has(code)
+    ) {
+      outstanding.set(code, course);
+    }
+  });
+
+  return Array.from(outstanding.values());
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { type RoundingMethod, applyRounding, formatGPA } from "@/lib/rounding";
+
+describe("applyRounding", () => {
+  // Values that sit on a rounding edge once multiplied out in floating point
+  const cases: [number, RoundingMethod, number][] = [
+    [4.495, "half-up", 4.5],
+    [4.495, "truncate", 4.49],
+    [4.495, "half-even", 4.5],
+    [2.675, "half-up", 2.68],
+    [2.675, "truncate", 2.67],
+    [2.675, "half-even", 2.68],
+  ];
+
+  it.each(cases)("rounds %s with %s to %s", (value, method, expected) => {
+    expect(applyRounding(value, { method, decimals: 2 })).toBe(expected);
+  });
+
+  it("rounds halves to the even neighbour under banker's rounding", () => {
+    expect(applyRounding(2.665, { method: "half-even", decimals: 2 })).toBe(
+      2.66
+    );
+    expect(applyRounding(3.125, { method: "half-even", decimals: 2 })).toBe(
+      3.12
+    );
+  });
+
+  it("does not truncate values that are exact in decimal", () => {
+    expect(applyRounding(4.29, { method: "truncate", decimals: 2 })).toBe(4.29);
+  });
+
+  it("keeps three decimals unchanged when there is nothing to round", () => {
+    (["half-up", "truncate", "half-even"] as RoundingMethod[]).forEach(
+      (method) => {
+        expect(applyRounding(4.495, { method, decimals: 3 })).toBe(4.495);
+        expect(applyRounding(2.675, { method, decimals: 3 })).toBe(2.675);
+      }
+    );
+  });
+
+  it("rounds at the third decimal", () => {
+    expect(applyRounding(3.4445, { method: "half-up", decimals: 3 })).toBe(
+      3.445
+    );
+    expect(applyRounding(3.4445, { method: "truncate", decimals: 3 })).toBe(
+      3.444
+    );
+  });
+});
+
+describe("formatGPA", () => {
+  it("pads to the policy's decimals", () => {
+    expect(formatGPA(4.5, { method: "half-up", decimals: 2 })).toBe("4.50");
+    expect(formatGPA(4, { method: "truncate", decimals: 3 })).toBe("4.000");
+  });
+});
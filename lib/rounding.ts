@@ -0,0 +1,44 @@
+export type RoundingMethod = "half-up" | "truncate" | "half-even";
+
+export interface RoundingPolicy {
+  method: RoundingMethod;
+  decimals: 2 | 3;
+}
+
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  method: "half-up",
+  decimals: 2,
+};
+
+export const roundingMethodLabels: Record<RoundingMethod, string> = {
+  "half-up": "Round half up",
+  truncate: "Truncate",
+  "half-even": "Banker's rounding",
+};
+
+// Absorbs float error such as 4.29 * 100 = 428.99999999999994
+const EPSILON = 1e-9;
+
+export function applyRounding(value: number, policy: RoundingPolicy): number {
+  const factor = Math.pow(10, policy.decimals);
+  const scaled = value * factor;
+
+  switch (policy.method) {
+    case "truncate":
+      return Math.floor(scaled + EPSILON) / factor;
+    case "half-even": {
+      const floor = Math.floor(scaled + EPSILON);
+      const fraction = scaled - floor;
+      if (Math.abs(fraction - 0.5) < EPSILON) {
+        return (floor % 2 === 0 ? floor : floor + 1) / factor;
+      }
+      return Math.round(scaled) / factor;
+    }
+    default:
+      return Math.round(scaled + EPSILON) / factor;
+  }
+}
+
+export function formatGPA(value: number, policy: RoundingPolicy): string {
+  return applyRounding(value, policy).toFixed(policy.decimals);
+}
@@ -0,0 +1,87 @@
+import {
+  DEFAULT_SCHEME_ID,
+  getGradingScheme,
+  isGradingSchemeId,
+  legacyScaleSchemeIds,
+} from "@/lib/grading-schemes";
+import { DEFAULT_RETAKE_POLICY } from "@/lib/retakes";
+import { getCurrentSession } from "@/lib/sessions";
+import { createEmptyStudentDetails } from "@/lib/student";
+
+export const SAVED_DATA_VERSION = 3;
+
+// A saved record as read from JSON, before it is validated
+export type RawSavedData = Record<string, unknown>;
+
+export function isRawSavedData(value: unknown): value is RawSavedData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Each migration upgrades a record from its index's version to the next one
+const migrations: ((data: RawSavedData) => RawSavedData)[] = [
+  // 0 -> 1: unversioned files; courses gain a session and semester, and the
+  // "4.0" | "5.0" scale becomes a grading scheme id with its default policies
+  (data) => {
+    const { scale, ...rest } = data;
+    const schemeId =
+      typeof data.schemeId === "string" && isGradingSchemeId(data.schemeId)
+        ? data.schemeId
+        : Object.prototype.hasOwnProperty.call(
+              legacyScaleSchemeIds,
+              String(scale)
+            )
+          ? legacyScaleSchemeIds[String(scale)]
+          : DEFAULT_SCHEME_ID;
+
+    return {
+      ...rest,
+      courses: Array.isArray(data.courses)
+        ? data.courses.map((course) =>
+            isRawSavedData(course)
+              ? {
+                  ...course,
+                  session: course.session ?? getCurrentSession(),
+                  semester: course.semester ?? "first",
+                }
+              : course
+          )
+        : data.courses,
+      schemeId,
+      retakePolicy: data.retakePolicy ?? DEFAULT_RETAKE_POLICY,
+      roundingPolicy:
+        data.roundingPolicy ?? getGradingScheme(schemeId).rounding,
+      lastUpdated: data.lastUpdated ?? new Date().toISOString(),
+    };
+  },
+  // 1 -> 2: record metadata, starting from the last save time
+  (data) => ({
+    ...data,
+    metadata: data.metadata ?? { createdAt: data.lastUpdated },
+  }),
+  // 2 -> 3: student details for the transcript header, blank to start
+  (data) => ({
+    ...data,
+    student: data.student ?? createEmptyStudentDetails(),
+  }),
+];
+
+// Upgrade a parsed record to the current version; files without a version
+// field predate versioning and start at 0
+export function migrateSavedData(data: RawSavedData): RawSavedData {
+  const version = typeof data.version === "number" ? data.version : 0;
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid file format: unknown version ${version}`);
+  }
+  if (version > SAVED_DATA_VERSION) {
+    throw new Error(
+      `This file was saved by a newer version of the calculator (version ${version})`
+    );
+  }
+
+  let migrated = data;
+  for (let from = version; from < SAVED_DATA_VERSION; from++) {
+    migrated = migrations[from](migrated);
+  }
+  return { ...migrated, version: SAVED_DATA_VERSION };
+}
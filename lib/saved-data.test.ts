@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  SavedDataError,
+  createEmptySavedData,
+  parseSavedData,
+} from "@/lib/saved-data";
+import type { Course, SavedData } from "@/lib/types";
+
+const course: Course = {
+  id: "1",
+  code: "CSC101",
+  grade: "A",
+  creditHours: 3,
+  session: "2022/2023",
+  semester: "first",
+};
+
+const record = (courses: Course[]): SavedData => ({
+  ...createEmptySavedData(),
+  courses,
+});
+
+describe("parseSavedData", () => {
+  it("reads back a record it saved", () => {
+    const data = record([course]);
+    expect(parseSavedData(JSON.stringify(data))).toEqual(data);
+  });
+
+  it("accepts a course whose session was cleared in the editor", () => {
+    const data = record([{ ...course, session: "" }]);
+    expect(parseSavedData(JSON.stringify(data)).courses[0].session).toBe("");
+  });
+
+  it("lists each invalid field", () => {
+    const data = record([{ ...course, creditHours: 0, score: -1 }]);
+    try {
+      parseSavedData(JSON.stringify(data));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SavedDataError);
+      expect((error as SavedDataError).issues).toHaveLength(2);
+    }
+  });
+
+  it("rejects a scheme id that only exists on the object prototype", () => {
+    const data = { ...record([course]), schemeId: "constructor" };
+    expect(() => parseSavedData(JSON.stringify(data))).toThrow(
+      "Unknown grading scheme"
+    );
+  });
+
+  it("rejects a record with no courses unless asked not to", () => {
+    const json = JSON.stringify(record([]));
+    expect(() => parseSavedData(json)).toThrow("No courses found in file");
+    expect(parseSavedData(json, { allowEmpty: true }).courses).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import {
+  DEFAULT_SCHEME_ID,
+  getGradingScheme,
+  gradingSchemes,
+  isGradingSchemeId,
+} from "@/lib/grading-schemes";
+import { DEFAULT_RETAKE_POLICY } from "@/lib/retakes";
+import { createEmptyStudentDetails } from "@/lib/student";
+import {
+  SAVED_DATA_VERSION,
+  isRawSavedData,
+  migrateSavedData,
+} from "@/lib/saved-data-migrations";
+import type { SavedData } from "@/lib/types";
+
+export interface SavedDataIssue {
+  // Where the problem is, e.g. "Course 3 (CSC 201) › creditHours"
+  field: string;
+  message: string;
+}
+
+// Thrown when a saved record cannot be loaded; lists every problem found
+export class SavedDataError extends Error {
+  issues: SavedDataIssue[];
+
+  constructor(message: string, issues: SavedDataIssue[] = []) {
+    super(message);
+    this.name = "SavedDataError";
+    this.issues = issues;
+  }
+}
+
+const assessmentPartSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  weight: z.number().positive("Weight must be greater than 0"),
+  score: z.number().min(0, "Score cannot be negative").optional(),
+});
+
+export const courseSchema = z.object({
+  id: z.string().min(1, "Course id is missing"),
+  code: z.string(),
+  title: z.string().optional(),
+  grade: z.string(),
+  creditHours: z.number().positive("Credit hours must be greater than 0"),
+  // The editor lets a session be cleared; such courses show as "Session not set"
+  session: z.string(),
+  semester: z.enum(["first", "second"]),
+  score: z.number().min(0, "Score cannot be negative").optional(),
+  assessments: z.array(assessmentPartSchema).optional(),
+  retakeOf: z.string().optional(),
+});
+
+export const retakePolicySchema = z.object({
+  mode: z.enum(["count-all", "replace", "cap"]),
+  capGrade: z.string(),
+});
+
+export const roundingPolicySchema = z.object({
+  method: z.enum(["half-up", "truncate", "half-even"]),
+  decimals: z.union([z.literal(2), z.literal(3)]),
+});
+
+export const schemeIdSchema = z
+  .string()
+  .refine(isGradingSchemeId, "Unknown grading scheme");
+
+// Grades must exist in the given scheme; "" is an ungraded course
+export function refineCourseGrades(
+  courses: { grade: string }[],
+  schemeId: string,
+  ctx: z.RefinementCtx
+) {
+  if (!isGradingSchemeId(schemeId)) return;
+  const scheme = gradingSchemes[schemeId];
+  courses.forEach((course, index) => {
+    if (
+      course.grade !== "" &&
+      !scheme.grades.some((g) => g.grade === course.grade)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["courses", index, "grade"],
+        message: `Grade "${course.grade}" is not in the ${scheme.name} scheme`,
+      });
+    }
+  });
+}
+
+const savedDataSchema = z
+  .object({
+    version: z.literal(SAVED_DATA_VERSION),
+    courses: z.array(courseSchema, {
+      required_error: "Courses list not found",
+    }),
+    schemeId: schemeIdSchema,
+    retakePolicy: retakePolicySchema,
+    roundingPolicy: roundingPolicySchema,
+    metadata: z.object({
+      createdAt: z.string(),
+    }),
+    student: z.object({
+      name: z.string(),
+      matricNumber: z.string(),
+      faculty: z.string(),
+      department: z.string(),
+      programme: z.string(),
+      entryYear: z.string(),
+    }),
+    lastUpdated: z.string(),
+  })
+  .superRefine((data, ctx) =>
+    refineCourseGrades(data.courses, data.schemeId, ctx)
+  );
+
+// Readable location for an issue path, naming courses by position and code
+export function describeIssuePath(
+  path: (string | number)[],
+  data: Record<string, unknown>,
+  // Names the whole input when the issue has no path
+  root = "File"
+): string {
+  if (path[0] === "courses" && typeof path[1] === "number") {
+    const course = Array.isArray(data.courses)
+      ? data.courses[path[1]]
+      : undefined;
+    const code =
+      isRawSavedData(course) && typeof course.code === "string"
+        ? course.code.trim()
+        : "";
+    const label = `Course ${path[1] + 1}${code ? ` (${code})` : ""}`;
+    return [label, ...path.slice(2)].join(" › ");
+  }
+  return path.length > 0 ? path.join(" › ") : root;
+}
+
+export function createEmptySavedData(): SavedData {
+  const now = new Date().toISOString();
+  return {
+    version: SAVED_DATA_VERSION,
+    courses: [],
+    schemeId: DEFAULT_SCHEME_ID,
+    retakePolicy: DEFAULT_RETAKE_POLICY,
+    roundingPolicy: getGradingScheme(DEFAULT_SCHEME_ID).rounding,
+    metadata: { createdAt: now },
+    student: createEmptyStudentDetails(),
+    lastUpdated: now,
+  };
+}
+
+// Parse, migrate and validate a saved JSON record, throwing a SavedDataError
+// that lists each invalid field if it is unusable
+export function parseSavedData(
+  json: string,
+  options: { allowEmpty?: boolean } = {}
+): SavedData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new SavedDataError("Invalid file format: not valid JSON");
+  }
+
+  if (!isRawSavedData(parsed)) {
+    throw new SavedDataError("Invalid file format: expected a saved record");
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateSavedData(parsed);
+  } catch (error) {
+    throw new SavedDataError(
+      error instanceof Error ? error.message : "Invalid file format"
+    );
+  }
+
+  const result = savedDataSchema.safeParse(migrated);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({
+      field: describeIssuePath(issue.path, migrated),
+      message: issue.message,
+    }));
+    throw new SavedDataError(
+      issues.length === 1
+        ? `${issues[0].field}: ${issues[0].message}`
+        : `${issues.length} problems found in the file`,
+      issues
+    );
+  }
+
+  if (result.data.courses.length === 0 && !options.allowEmpty) {
+    throw new SavedDataError("No courses found in file");
+  }
+
+  return result.data;
+}
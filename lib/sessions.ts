@@ -0,0 +1,25 @@
+import type { Course, Semester } from "@/lib/types";
+
+export const semesterLabels: Record<Semester, string> = {
+  first: "First Semester",
+  second: "Second Semester",
+};
+
+// Default session for new records, e.g. "2024/2025" (UNILAG sessions start in the autumn)
+export function getCurrentSession(date: Date = new Date()): string {
+  const startYear =
+    date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}/${startYear + 1}`;
+}
+
+// Chronological order of the semesters two courses were taken in; sessions
+// such as "2022/2023" sort as text
+export function compareSemesters(
+  a: Pick<Course, "session" | "semester">,
+  b: Pick<Course, "session" | "semester">
+): number {
+  return (
+    a.session.trim().localeCompare(b.session.trim()) ||
+    (a.semester === b.semester ? 0 : a.semester === "first" ? -1 : 1)
+  );
+}
@@ -0,0 +1,57 @@
+import { fromBase64Url, toBase64Url } from "@/lib/base64";
+import { parseSavedData } from "@/lib/saved-data";
+import type { SavedData } from "@/lib/types";
+
+// The record lives only in the URL fragment, which browsers never send to a server
+const SHARE_PREFIX = "#share=";
+// "z" payloads are deflate-compressed; "j" is plain JSON for browsers
+// without CompressionStream
+const COMPRESSED = "z";
+const UNCOMPRESSED = "j";
+
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  // Copied so the Blob gets a plain ArrayBuffer-backed view
+  const output = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function isShareLink(hash: string): boolean {
+  return hash.startsWith(SHARE_PREFIX);
+}
+
+export async function createShareLink(
+  data: SavedData,
+  baseUrl: string
+): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(data));
+  const payload =
+    typeof CompressionStream === "undefined"
+      ? `${UNCOMPRESSED}.${toBase64Url(json)}`
+      : `${COMPRESSED}.${toBase64Url(
+          await transform(json, new CompressionStream("deflate-raw"))
+        )}`;
+  return `${baseUrl.split("#")[0]}${SHARE_PREFIX}${payload}`;
+}
+
+// Read the record from a "#share=" fragment; throws if it is damaged
+export async function readShareLink(hash: string): Promise<SavedData> {
+  const [format, encoded] = hash.slice(SHARE_PREFIX.length).split(".");
+  if (!encoded || (format !== COMPRESSED && format !== UNCOMPRESSED)) {
+    throw new Error("This share link is incomplete or damaged");
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(encoded);
+    if (format === COMPRESSED) {
+      bytes = await transform(bytes, new DecompressionStream("deflate-raw"));
+    }
+  } catch {
+    throw new Error("This share link is incomplete or damaged");
+  }
+
+  return parseSavedData(new TextDecoder().decode(bytes), { allowEmpty: true });
+}
@@ -0,0 +1,223 @@
+import {
+  type SavedDataIssue,
+  SavedDataError,
+  parseSavedData,
+} from "@/lib/saved-data";
+import type { SavedData } from "@/lib/types";
+
+const DB_NAME = "unilag-cgpa-calculator";
+const DB_VERSION = 1;
+const PROFILES_STORE = "profiles";
+const META_STORE = "meta";
+const ACTIVE_PROFILE_KEY = "activeProfileId";
+
+// Single-record localStorage key used before profiles moved to IndexedDB
+export const LEGACY_STORAGE_KEY = "unilag-cgpa-calculator:data";
+
+export const PROFILES_BACKUP_TYPE = "cgpa-profiles-backup";
+
+export interface ProfileRecord {
+  id: string;
+  name: string;
+  // Stored as written; validated with parseSavedData when the profile opens
+  data: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProfilesBackup {
+  type: typeof PROFILES_BACKUP_TYPE;
+  exportedAt: string;
+  profiles: { name: string; data: SavedData }[];
+}
+
+export type StoredState =
+  | { status: "empty" }
+  | { status: "ok"; data: SavedData }
+  | {
+      status: "corrupted";
+      raw: string;
+      error: string;
+      issues: SavedDataIssue[];
+    };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+          db.createObjectStore(PROFILES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createProfileRecord(
+  name: string,
+  data: unknown
+): ProfileRecord {
+  const now = new Date().toISOString();
+  return { id: createProfileId(), name, data, createdAt: now, updatedAt: now };
+}
+
+export async function listProfiles(): Promise<ProfileRecord[]> {
+  const records = await runRequest<ProfileRecord[]>(
+    PROFILES_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getProfile(id: string): Promise<ProfileRecord | null> {
+  const record = await runRequest<ProfileRecord | undefined>(
+    PROFILES_STORE,
+    "readonly",
+    (store) => store.get(id)
+  );
+  return record ?? null;
+}
+
+export async function putProfile(record: ProfileRecord): Promise<void> {
+  await runRequest(PROFILES_STORE, "readwrite", (store) => store.put(record));
+}
+
+export type ProfileWriteResult =
+  | { status: "saved"; record: ProfileRecord }
+  // The stored copy changed since it was read (or the profile was deleted)
+  | { status: "conflict"; record: ProfileRecord | null };
+
+// Write a profile's data only if the stored copy is still the version the
+// caller last read (expectedUpdatedAt), so another tab's save is never
+// silently overwritten. Pass null to overwrite regardless.
+export async function saveProfileData(
+  id: string,
+  data: SavedData,
+  expectedUpdatedAt: string | null
+): Promise<ProfileWriteResult> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    // Read and write in one transaction so no other tab can write in between
+    const transaction = db.transaction(PROFILES_STORE, "readwrite");
+    const store = transaction.objectStore(PROFILES_STORE);
+    let result: ProfileWriteResult = { status: "conflict", record: null };
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const stored = request.result as ProfileRecord | undefined;
+      if (
+        !stored ||
+        (expectedUpdatedAt !== null && stored.updatedAt !== expectedUpdatedAt)
+      ) {
+        result = { status: "conflict", record: stored ?? null };
+        return;
+      }
+      const record = { ...stored, data, updatedAt: data.lastUpdated };
+      store.put(record);
+      result = { status: "saved", record };
+    };
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  await runRequest(PROFILES_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function getActiveProfileId(): Promise<string | null> {
+  const id = await runRequest<string | undefined>(
+    META_STORE,
+    "readonly",
+    (store) => store.get(ACTIVE_PROFILE_KEY)
+  );
+  return id ?? null;
+}
+
+export async function setActiveProfileId(id: string): Promise<void> {
+  await runRequest(META_STORE, "readwrite", (store) =>
+    store.put(id, ACTIVE_PROFILE_KEY)
+  );
+}
+
+export function readProfileData(record: ProfileRecord): StoredState {
+  if (record.data === null || record.data === undefined) {
+    return { status: "empty" };
+  }
+
+  const raw =
+    typeof record.data === "string" ? record.data : JSON.stringify(record.data);
+
+  try {
+    // A profile may legitimately have no courses yet
+    return { status: "ok", data: parseSavedData(raw, { allowEmpty: true }) };
+  } catch (error) {
+    return {
+      status: "corrupted",
+      raw,
+      error: error instanceof Error ? error.message : "Unreadable data",
+      issues: error instanceof SavedDataError ? error.issues : [],
+    };
+  }
+}
+
+// Move the single localStorage record into a profile, once
+export async function migrateLegacyStorage(): Promise<ProfileRecord | null> {
+  const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (raw === null) return null;
+
+  const record = createProfileRecord("My Profile", raw);
+  await putProfile(record);
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return record;
+}
+
+export function createProfilesBackup(
+  profiles: { name: string; data: SavedData }[]
+): ProfilesBackup {
+  return {
+    type: PROFILES_BACKUP_TYPE,
+    exportedAt: new Date().toISOString(),
+    profiles,
+  };
+}
+
+export function isProfilesBackup(value: unknown): value is ProfilesBackup {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as ProfilesBackup).type === PROFILES_BACKUP_TYPE &&
+    Array.isArray((value as ProfilesBackup).profiles)
+  );
+}
@@ -0,0 +1,66 @@
+import type { StudentDetails } from "@/lib/types";
+
+export const studentFieldLabels: Record<keyof StudentDetails, string> = {
+  name: "Full name",
+  matricNumber: "Matric number",
+  faculty: "Faculty",
+  department: "Department",
+  programme: "Programme",
+  entryYear: "Entry year",
+};
+
+export function createEmptyStudentDetails(): StudentDetails {
+  return {
+    name: "",
+    matricNumber: "",
+    faculty: "",
+    department: "",
+    programme: "",
+    entryYear: "",
+  };
+}
+
+export function hasStudentDetails(student: StudentDetails): boolean {
+  return (Object.keys(student) as (keyof StudentDetails)[]).some(
+    (field) => student[field].trim() !== ""
+  );
+}
+
+// "2019" or a session such as "2019/2020"; null if it is neither
+export function parseEntryYear(value: string): number | null {
+  const match = value.trim().match(/^(\d{4})(?:\/(\d{4}))?$/);
+  if (!match) return null;
+  if (match[2] && Number(match[2]) !== Number(match[1]) + 1) return null;
+  return Number(match[1]);
+}
+
+export function getEntryYearWarning(entryYear: string): string | null {
+  if (entryYear.trim() === "" || parseEntryYear(entryYear) !== null) {
+    return null;
+  }
+  return "Use a year such as 2019, or a session such as 2019/2020";
+}
+
+// UNILAG matric numbers are nine digits and start with the last two digits
+// of the entry year, e.g. 190401001 for a 2019 entry. Only a warning: the
+// value is still saved and printed as entered.
+export function getMatricNumberWarning(
+  matricNumber: string,
+  entryYear: string
+): string | null {
+  const value = matricNumber.replace(/\s+/g, "");
+  if (value === "") return null;
+  if (!/^\d{9}$/.test(value)) {
+    return "UNILAG matric numbers are 9 digits, e.g. 190401001";
+  }
+
+  const year = parseEntryYear(entryYear);
+  if (year !== null) {
+    const prefix = String(year % 100);
+    const expected = prefix.length === 1 ? `0${prefix}` : prefix;
+    if (value.slice(0, 2) !== expected) {
+      return `Starts with ${value.slice(0, 2)}, but a ${year} entry would start with ${expected}`;
+    }
+  }
+  return null;
+}
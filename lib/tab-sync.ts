@@ -0,0 +1,49 @@
+// Tells other open tabs of the calculator when stored profiles change
+const CHANNEL_NAME = "unilag-cgpa-calculator:sync";
+// localStorage key used to signal tabs where BroadcastChannel is missing
+const STORAGE_SIGNAL_KEY = "unilag-cgpa-calculator:sync";
+
+export type SyncMessage =
+  // A profile's data was saved; updatedAt identifies the new version
+  | { type: "profile-saved"; profileId: string; updatedAt: string }
+  // Profiles were added, renamed or deleted
+  | { type: "profiles-changed" };
+
+export interface TabSync {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+export function openTabSync(
+  onMessage: (message: SyncMessage) => void
+): TabSync {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) =>
+      onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // Storage events fire in every other tab of the same origin
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_SIGNAL_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch {
+      // Not one of ours
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return {
+    post: (message) =>
+      // The nonce makes repeated messages still count as a change
+      window.localStorage.setItem(
+        STORAGE_SIGNAL_KEY,
+        JSON.stringify({ message, nonce: Math.random() })
+      ),
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
@@ -0,0 +1,16 @@
+import type { Course } from "@/lib/types";
+
+let nextId = 0;
+
+// A graded course for unit tests; every call gets a new id unless one is given
+export function createCourse(overrides: Partial<Course> = {}): Course {
+  return {
+    id: String(++nextId),
+    code: "CSC101",
+    grade: "A",
+    creditHours: 3,
+    session: "2022/2023",
+    semester: "first",
+    ...overrides,
+  };
+}
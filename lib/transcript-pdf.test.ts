@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { getGradingScheme } from "@/lib/grading-schemes";
+import { createEmptySavedData } from "@/lib/saved-data";
+import { createCourse } from "@/lib/test-fixtures";
+import {
+  createTranscriptPDF,
+  getTranscriptFileName,
+} from "@/lib/transcript-pdf";
+
+const date = new Date("2025-03-01T12:00:00Z");
+
+describe("getTranscriptFileName", () => {
+  it("starts with the scheme's file name prefix", () => {
+    expect(getTranscriptFileName(getGradingScheme("unilag-5.0"), date)).toBe(
+      "UNILAG_Transcript_2025-03-01.pdf"
+    );
+    expect(getTranscriptFileName(getGradingScheme("standard-4.0"), date)).toBe(
+      "Transcript_4.0_2025-03-01.pdf"
+    );
+  });
+});
+
+describe("createTranscriptPDF", () => {
+  it("prints the active scheme's title", () => {
+    const pdf = createTranscriptPDF(
+      {
+        ...createEmptySavedData(),
+        schemeId: "standard-4.0",
+        courses: [createCourse()],
+      },
+      date
+    ).output();
+    expect(pdf).toContain("STANDARD 4.0 SCALE");
+    expect(pdf).not.toContain("UNIVERSITY OF LAGOS");
+  });
+});
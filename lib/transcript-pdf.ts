@@ -0,0 +1,225 @@
+import jsPDF from "jspdf";
+import { computeCGPA, getQualityPoints } from "@/lib/cgpa-engine";
+import { getDegreeClassification } from "@/lib/classification";
+import {
+  type GradingScheme,
+  getGradePoint,
+  getGradingScheme,
+} from "@/lib/grading-schemes";
+import { formatGPA } from "@/lib/rounding";
+import { studentFieldLabels } from "@/lib/student";
+import type { SavedData, StudentDetails } from "@/lib/types";
+
+// Student fields printed per header line; long ones get a line of their own
+const STUDENT_HEADER_ROWS: (keyof StudentDetails)[][] = [
+  ["name"],
+  ["matricNumber", "entryYear"],
+  ["faculty", "department"],
+  ["programme"],
+];
+
+export function getTranscriptFileName(
+  scheme: GradingScheme,
+  date: Date = new Date()
+): string {
+  return `${scheme.transcript.fileNamePrefix}_${
+    date.toISOString().split("T")[0]
+  }.pdf`;
+}
+
+// Transcript of a record's counted courses; shared by the web app and the CLI
+export function createTranscriptPDF(
+  data: SavedData,
+  generatedAt: Date = new Date()
+): jsPDF {
+  const scheme = getGradingScheme(data.schemeId);
+  const roundingPolicy = data.roundingPolicy;
+  const result = computeCGPA(data.courses, scheme, {
+    retakePolicy: data.retakePolicy,
+    rounding: roundingPolicy,
+  });
+  const validCourses = result.countedCourses;
+
+  const doc = new jsPDF();
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text(scheme.transcript.title, 105, 20, { align: "center" });
+
+  doc.setFontSize(16);
+  doc.text("ACADEMIC TRANSCRIPT", 105, 30, { align: "center" });
+
+  // Student details, skipping blank fields; the rest of the page moves down
+  // by however much space they take
+  let top = 0;
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "normal");
+  STUDENT_HEADER_ROWS.forEach((row) => {
+    const filled = row.filter((field) => data.student[field].trim() !== "");
+    filled.forEach((field, index) => {
+      doc.text(
+        `${studentFieldLabels[field]}: ${data.student[field].trim()}`,
+        index === 0 ? 20 : 110,
+        44 + top
+      );
+    });
+    if (filled.length > 0) top += 7;
+  });
+  if (top > 0) {
+    doc.line(20, 40 + top, 190, 40 + top);
+    top += 4;
+  }
+
+  // Document info section
+  const currentDate = generatedAt.toLocaleDateString();
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Generated: ${currentDate}`, 20, 50 + top);
+  doc.text(`Total Courses: ${validCourses.length}`, 20, 60 + top);
+  doc.text(`Total Credits: ${result.overall.totalCredits}`, 20, 70 + top);
+
+  // CGPA Display
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("CUMULATIVE GRADE POINT AVERAGE (CGPA)", 20, 85 + top);
+  doc.line(20, 87 + top, 190, 87 + top);
+
+  doc.setFontSize(16);
+  doc.text(
+    `CGPA: ${formatGPA(
+      result.overall.gpa,
+      roundingPolicy
+    )} / ${scheme.maxScale.toFixed(1)}`,
+    20,
+    100 + top
+  );
+
+  const degreeClassification = getDegreeClassification(
+    scheme,
+    result.overall.gpa
+  );
+  doc.setFontSize(12);
+  doc.text(
+    `Class: ${degreeClassification.current?.name ?? "Not classified"}`,
+    110,
+    100 + top
+  );
+
+  result.conversions.forEach((conversion, index) => {
+    const maxScale = conversion.maxScale.toFixed(1);
+    doc.setFontSize(12);
+    doc.text(
+      `Equivalent ${maxScale} Scale: ${formatGPA(
+        conversion.summary.gpa,
+        roundingPolicy
+      )} / ${maxScale}`,
+      20,
+      110 + top + index * 8
+    );
+  });
+
+  // Course Details Header
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("COURSE DETAILS", 20, 130 + top);
+  doc.line(20, 132 + top, 190, 132 + top);
+
+  // Table Headers
+  doc.setFontSize(10);
+  doc.text("S/N", 25, 145 + top);
+  doc.text("Course Code", 40, 145 + top);
+  doc.text("Score", 68, 145 + top);
+  doc.text("Grade", 88, 145 + top);
+  doc.text("Credit Hours", 110, 145 + top);
+  doc.text("Grade Points", 145, 145 + top);
+  doc.text("Quality Points", 175, 145 + top);
+
+  // Underline headers
+  doc.line(20, 147 + top, 190, 147 + top);
+
+  // Course rows
+  let yPosition = 160 + top;
+
+  validCourses.forEach((course, index) => {
+    const gradePoint = getGradePoint(scheme, course.grade);
+    const qualityPoints = getQualityPoints(course, scheme);
+
+    doc.setFont("helvetica", "normal");
+    doc.text((index + 1).toString(), 25, yPosition);
+    doc.text(course.code, 40, yPosition);
+    doc.text(
+      course.score !== undefined ? course.score.toString() : "-",
+      68,
+      yPosition
+    );
+    doc.text(course.grade, 88, yPosition);
+    doc.text(course.creditHours.toString(), 110, yPosition);
+    doc.text(gradePoint.toFixed(1), 145, yPosition);
+    doc.text(qualityPoints.toFixed(1), 175, yPosition);
+
+    yPosition += 10;
+
+    // Start a new page if needed
+    if (yPosition > 250) {
+      doc.addPage();
+      yPosition = 30;
+    }
+  });
+
+  // Total row
+  yPosition += 5;
+  doc.line(20, yPosition, 190, yPosition);
+  yPosition += 10;
+  doc.setFont("helvetica", "bold");
+  doc.text("TOTAL", 40, yPosition);
+  doc.text(result.overall.totalCredits.toString(), 110, yPosition);
+  doc.text(result.overall.qualityPoints.toFixed(1), 175, yPosition);
+
+  // Grade scale legend
+  yPosition += 20;
+  if (yPosition > 240) {
+    doc.addPage();
+    yPosition = 30;
+  }
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  doc.text("GRADING SCALE:", 20, yPosition);
+
+  doc.setFont("helvetica", "normal");
+  const gradeScale = scheme.grades.map(
+    (g) => `${g.grade} = ${g.points.toFixed(1)} (${g.description})`
+  );
+
+  gradeScale.forEach((grade, index) => {
+    yPosition += 8;
+    doc.text(grade, 20, yPosition);
+  });
+
+  // Class of degree guide
+  let degreeYPosition = yPosition - gradeScale.length * 8;
+  doc.setFont("helvetica", "bold");
+  doc.text("CLASS OF DEGREE GUIDE:", 110, degreeYPosition);
+
+  doc.setFont("helvetica", "normal");
+  const degreeClass = scheme.degreeClasses.map(
+    (cls) => `${cls.name}: ${cls.min.toFixed(2)} - ${cls.max.toFixed(2)}`
+  );
+
+  degreeClass.forEach((cls, index) => {
+    degreeYPosition += 8;
+    doc.text(cls, 110, degreeYPosition);
+  });
+
+  // Footer
+  doc.setFontSize(8);
+  doc.text(
+    "This is a computer-generated transcript from UNILAG CGPA Calculator",
+    105,
+    280,
+    { align: "center" }
+  );
+
+  return doc;
+}
@@ -0,0 +1,50 @@
+import type { AssessmentPart } from "@/lib/assessments";
+import type { RetakePolicy } from "@/lib/retakes";
+import type { RoundingPolicy } from "@/lib/rounding";
+
+export type Semester = "first" | "second";
+
+export interface Course {
+  id: string;
+  code: string;
+  // Full course name, e.g. from an imported spreadsheet
+  title?: string;
+  grade: string;
+  creditHours: number;
+  session: string;
+  semester: Semester;
+  // Exam score the grade was derived from, when entered as a score
+  score?: number;
+  // Weighted parts (e.g. CA + exam) the score is added up from
+  assessments?: AssessmentPart[];
+  // Id of the earlier attempt this course retakes (a carry-over)
+  retakeOf?: string;
+}
+
+export interface SavedDataMetadata {
+  // When the record was first created; kept across saves and exports
+  createdAt: string;
+}
+
+// Printed in the transcript header; every field may be left blank
+export interface StudentDetails {
+  name: string;
+  matricNumber: string;
+  faculty: string;
+  department: string;
+  programme: string;
+  // Year of admission, e.g. "2019"
+  entryYear: string;
+}
+
+export interface SavedData {
+  // Format version; older files are migrated on load (see lib/saved-data-migrations.ts)
+  version: number;
+  courses: Course[];
+  schemeId: string;
+  retakePolicy: RetakePolicy;
+  roundingPolicy: RoundingPolicy;
+  metadata: SavedDataMetadata;
+  student: StudentDetails;
+  lastUpdated: string;
+}
@@ -0,0 +1,34 @@
+import type { Course } from "@/lib/types";
+
+export interface WhatIfScenario {
+  // Simulated grade per real course id
+  overrides: Record<string, string>;
+  hypotheticalCourses: Course[];
+}
+
+export function createEmptyScenario(): WhatIfScenario {
+  return { overrides: {}, hypotheticalCourses: [] };
+}
+
+export function isScenarioEmpty(scenario: WhatIfScenario): boolean {
+  return (
+    Object.keys(scenario.overrides).length === 0 &&
+    scenario.hypotheticalCourses.length === 0
+  );
+}
+
+// Real courses with overrides applied, followed by the hypothetical ones
+export function applyScenario(
+  courses: Course[],
+  scenario: WhatIfScenario
+): Course[] {
+  return [
+    ...courses.map((course) => {
+      const grade = scenario.overrides[course.id];
+      return grade === undefined
+        ? course
+        : { ...course, grade, score: undefined, assessments: undefined };
+    }),
+    ...scenario.hypotheticalCourses,
+  ];
+}
@@ -0,0 +1,116 @@
+// Service worker that keeps the calculator working offline.
+//
+// The page shell is served from the cache first, so the app opens instantly
+// on a poor connection. Build assets under /_next/static are content-hashed
+// and cached forever; everything else is fetched fresh when possible. The page
+// itself checks for new deployments and offers a reload (see
+// components/service-worker-registration.tsx).
+
+const CACHE_NAME = "cgpa-shell-v1";
+const SHELL_URL = "/";
+const PRECACHE_URLS = [
+  SHELL_URL,
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/apple-touch-icon.png",
+];
+
+// Same pattern as getBuildAssetUrls in lib/app-shell.ts
+const getBuildAssetUrls = (html) =>
+  Array.from(new Set(html.match(/\/_next\/static\/[^"'\\\s)]+/g) || []));
+
+// Cache the scripts, styles and fonts a page links to; a missing one is
+// fetched again the next time it is requested
+const cacheBuildAssets = (cache, html) =>
+  Promise.all(
+    getBuildAssetUrls(html).map((url) => cache.add(url).catch(() => undefined))
+  );
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(PRECACHE_URLS);
+      const shell = await cache.match(SHELL_URL);
+      if (shell) await cacheBuildAssets(cache, await shell.text());
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirst(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      // A fresh shell links to a new build's assets; cache them too so the
+      // new version also works offline
+      if (new URL(request.url).pathname === SHELL_URL) {
+        event.waitUntil(
+          response
+            .clone()
+            .text()
+            .then((html) => cacheBuildAssets(cache, html))
+        );
+      }
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function serveShell(event) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(SHELL_URL);
+  return cached || networkFirst(event);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API responses are always live
+  if (
+    request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/")
+  ) {
+    return;
+  }
+
+  if (request.mode === "navigate" && url.pathname === SHELL_URL) {
+    event.respondWith(serveShell(event));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(event));
+  }
+});
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Runs scripts/cgpa.ts with the same "@/" imports as the web app, so the CLI
+// shares its calculation and transcript code. See `npm run cgpa -- --help`.
+const path = require("path");
+
+const jiti = require("jiti")(__filename, {
+  alias: { "@": path.resolve(__dirname, "..") },
+});
+
+process.exitCode = jiti("./cgpa.ts").main(process.argv.slice(2));
@@ -0,0 +1,282 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, extname, join } from "path";
+import { type CGPAResponse, computeCGPAResponse } from "@/lib/cgpa-api";
+import {
+  getCourseCsvMappingErrors,
+  guessCourseCsvMapping,
+  mapCourseCsvRows,
+} from "@/lib/course-csv";
+import { parseCSV } from "@/lib/csv";
+import { isEncryptedFile } from "@/lib/encryption";
+import {
+  DEFAULT_SCHEME_ID,
+  getGradingScheme,
+  gradingSchemes,
+  isGradingSchemeId,
+} from "@/lib/grading-schemes";
+import { formatGPA } from "@/lib/rounding";
+import {
+  SavedDataError,
+  createEmptySavedData,
+  parseSavedData,
+} from "@/lib/saved-data";
+import { getCurrentSession, semesterLabels } from "@/lib/sessions";
+import { createTranscriptPDF } from "@/lib/transcript-pdf";
+import type { Course, SavedData } from "@/lib/types";
+
+const USAGE = `Usage: npm run cgpa -- <file...> [options]
+
+Prints the GPA breakdown, classification and 4.0 conversion for each saved
+JSON record or CSV course list, using the same calculation as the web app.
+
+Options:
+  --pdf <dir>        Also write each transcript PDF into <dir>
+  --json             Print results as JSON (the shape POST /api/cgpa returns)
+  --scheme <id>      Grading scheme for CSV files (default: ${DEFAULT_SCHEME_ID})
+  --session <year>   Session for CSV rows without one (default: current)
+  -h, --help         Show this help`;
+
+interface CliOptions {
+  files: string[];
+  pdfDir: string | null;
+  json: boolean;
+  schemeId: string;
+  session: string;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = {
+    files: [],
+    pdfDir: null,
+    json: false,
+    schemeId: DEFAULT_SCHEME_ID,
+    session: getCurrentSession(),
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+
+    if (arg === "-h" || arg === "--help") return null;
+    else if (arg === "--pdf") options.pdfDir = value();
+    else if (arg === "--json") options.json = true;
+    else if (arg === "--scheme") options.schemeId = value();
+    else if (arg === "--session") options.session = value();
+    else if (arg.startsWith("-")) throw new UsageError(`Unknown option ${arg}`);
+    else options.files.push(arg);
+  }
+
+  if (!isGradingSchemeId(options.schemeId)) {
+    throw new UsageError(
+      `Unknown scheme "${options.schemeId}"; use one of ${Object.keys(
+        gradingSchemes
+      ).join(", ")}`
+    );
+  }
+  if (options.files.length === 0) throw new UsageError("No files given");
+  return options;
+}
+
+// Every row must be valid; a CSV with problems is rejected as a whole
+function readCsvRecord(text: string, options: CliOptions): SavedData {
+  const rows = parseCSV(text);
+  if (rows.length === 0) throw new SavedDataError("The file has no rows");
+
+  const mapping = guessCourseCsvMapping(rows[0]);
+  const mappingErrors = getCourseCsvMappingErrors(mapping);
+  if (mappingErrors.length > 0) {
+    throw new SavedDataError(
+      "The header row is missing required columns",
+      mappingErrors.map((message) => ({ field: "Header", message }))
+    );
+  }
+
+  const scheme = getGradingScheme(options.schemeId);
+  const mapped = mapCourseCsvRows(rows.slice(1), mapping, scheme, {
+    session: options.session,
+    semester: "first",
+    firstRowNumber: 2,
+  });
+  const issues = mapped.reduce<{ field: string; message: string }[]>(
+    (all, row) =>
+      all.concat(
+        row.errors.map((message) => ({
+          field: `Row ${row.rowNumber}`,
+          message,
+        }))
+      ),
+    []
+  );
+  if (issues.length > 0) {
+    throw new SavedDataError(
+      `${issues.length} problem${
+        issues.length === 1 ? "" : "s"
+      } found in the file`,
+      issues
+    );
+  }
+
+  return {
+    ...createEmptySavedData(),
+    schemeId: scheme.id,
+    roundingPolicy: scheme.rounding,
+    courses: mapped
+      .map((row) => row.course)
+      .filter((course): course is Course => course !== null),
+  };
+}
+
+function readRecord(file: string, options: CliOptions): SavedData {
+  const text = readFileSync(file, "utf8");
+  if (extname(file).toLowerCase() === ".csv") {
+    return readCsvRecord(text, options);
+  }
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Reported by parseSavedData below
+  }
+  if (isEncryptedFile(parsed)) {
+    throw new SavedDataError(
+      "The file is encrypted; load it in the app and download it unencrypted"
+    );
+  }
+  return parseSavedData(text);
+}
+
+function printResult(file: string, data: SavedData, result: CGPAResponse) {
+  const format = (gpa: number) => formatGPA(gpa, data.roundingPolicy);
+  const lines = [`${file} — ${result.scheme.name}`];
+
+  result.semesters.forEach((semester) => {
+    lines.push(
+      `  ${semester.session} ${semesterLabels[semester.semester].padEnd(
+        16
+      )} GPA ${format(semester.gpa)}  ${String(semester.totalUnits).padStart(
+        3
+      )} units  CGPA ${format(semester.cumulative.gpa)}`
+    );
+  });
+
+  lines.push(
+    `  CGPA ${format(result.gpa)} / ${result.scheme.maxScale.toFixed(1)} · ${
+      result.classification.current ?? "Not classified"
+    }`,
+    `  ${result.totalUnits} units, ${result.qualityPoints.toFixed(
+      1
+    )} quality points, ${result.courseCount} courses counted`
+  );
+  result.conversions.forEach((conversion) => {
+    lines.push(
+      `  ${conversion.name}: ${format(
+        conversion.gpa
+      )} / ${conversion.maxScale.toFixed(1)}`
+    );
+  });
+
+  console.log(lines.join("\n"));
+}
+
+// PDF name for each input file: its base name, keeping the extension when
+// another input shares that name (x.json and x.csv) and numbering any that
+// still clash (two x.json files in different folders)
+function getTranscriptNames(files: string[]): string[] {
+  const baseName = (file: string) => basename(file, extname(file));
+  const baseCounts = new Map<string, number>();
+  files.forEach((file) => {
+    const key = baseName(file).toLowerCase();
+    baseCounts.set(key, (baseCounts.get(key) ?? 0) + 1);
+  });
+
+  const used = new Set<string>();
+  return files.map((file) => {
+    const base = baseName(file);
+    const stem =
+      (baseCounts.get(base.toLowerCase()) ?? 0) > 1 && extname(file) !== ""
+        ? `${base}-${extname(file).slice(1)}`
+        : base;
+    let name = stem;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem}-${n}`;
+    used.add(name.toLowerCase());
+    return `${name}.pdf`;
+  });
+}
+
+function writeTranscript(data: SavedData, pdfDir: string, name: string) {
+  mkdirSync(pdfDir, { recursive: true });
+  const target = join(pdfDir, name);
+  const pdf = createTranscriptPDF(data).output("arraybuffer");
+  writeFileSync(target, new Uint8Array(pdf));
+  return target;
+}
+
+// Returns the exit code: 1 if any file failed, 2 for bad arguments
+export function main(args: string[]): number {
+  let parsed: CliOptions | null;
+  try {
+    parsed = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!parsed) {
+    console.log(USAGE);
+    return 0;
+  }
+  const options = parsed;
+
+  const results: ({ file: string } & CGPAResponse)[] = [];
+  const transcriptNames = getTranscriptNames(options.files);
+  let failures = 0;
+
+  options.files.forEach((file, index) => {
+    try {
+      const data = readRecord(file, options);
+      const result = computeCGPAResponse(data);
+      results.push({ file, ...result });
+
+      if (!options.json) {
+        if (index > 0) console.log("");
+        printResult(file, data, result);
+      }
+      // Like the web app, no transcript without a completed course
+      if (options.pdfDir && result.courseCount === 0) {
+        console.error(`${file}: no completed courses, transcript skipped`);
+      } else if (options.pdfDir) {
+        const target = writeTranscript(
+          data,
+          options.pdfDir,
+          transcriptNames[index]
+        );
+        if (!options.json) console.log(`  Transcript: ${target}`);
+      }
+    } catch (error) {
+      failures++;
+      console.error(
+        `${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      if (error instanceof SavedDataError) {
+        error.issues.forEach((issue) =>
+          console.error(`  ${issue.field}: ${issue.message}`)
+        );
+      }
+    }
+  });
+
+  if (options.json) console.log(JSON.stringify(results, null, 2));
+  if (options.files.length > 1) {
+    console.error(
+      `\n${options.files.length - failures} of ${options.files.length} files processed`
+    );
+  }
+  return failures > 0 ? 1 : 0;
+}